@@ -4,14 +4,341 @@
 */
 
 import {
+    IAttached,
+    IAttachment,
     IClass,
+    IClassOf,
     IConjugateBase,
+    IComposition,
+    IConjugated,
+    IConjugateState,
+    IExplanation,
+    IFactory,
+    IListener,
+    IMixin,
+    IObserver,
+    ISnapshotMode,
+    ISuper,
 } from './typing.js';
+import { classOf } from './mixin.js';
+import { compositionOf, fieldsOf, rebuild, states, stateOf } from './state.js';
+
+/**
+ * Bound functions, by function and then by the instance they are bound to, so references stay stable.
+ */
+const bindings = new WeakMap<Function, WeakMap<object, Function>>();
+
+/**
+ * Key Node.js looks up for custom inspection, e.g. by console.log.
+ */
+const inspectKey = Symbol.for('nodejs.util.inspect.custom');
+
+/**
+ * Key of the asynchronous initializer of a constituent, awaited by `create` once every constituent is constructed.
+ */
+const initKey: unique symbol = Symbol('ConjugateBase.init');
+
+/**
+ * Members every conjugated instance takes from ConjugateBase rather than from its constituents.
+ */
+const intrinsics = new Set<string | symbol>([
+    Symbol.toStringTag,
+    inspectKey,
+    Symbol.dispose,
+    Symbol.asyncDispose,
+    initKey,
+]);
+
+/**
+ * Constituent instances of a conjugated instance: those constructed, in construction order,
+ * then those attached at runtime, in attach order.
+ * @param state - The state of the conjugated instance.
+ * @return The constituent instances, with their class and whether their methods run against the composition.
+ */
+function partsOf(state: IConjugateState): IAttachment[] {
+    return [
+        ...[...state.constructed].flatMap((i): IAttachment[] => {
+            const inst = state.instances[i];
+            if (!ConjugateBase.isObject(inst)) {
+                return [];
+            }
+            return [{ class: state.classes[i], instance: inst, shared: state.shared[i] }];
+        }),
+        ...state.attachments,
+    ];
+}
+
+/**
+ * Lifecycle method of a constituent, e.g. its disposal method, bound to the object its methods run against.
+ * Methods are looked up on the constituent and its class, not through the composition, which calls all of them.
+ * @param state - The state of the conjugated instance.
+ * @param part - The constituent instance.
+ * @param keys - The keys to look for, in order of preference.
+ * @return The bound method, or undefined if the constituent defines none.
+ */
+function hookOf(state: IConjugateState, part: IAttachment, keys: readonly symbol[]): (() => unknown) | undefined {
+    const { class: Cls, instance: inst, shared } = part;
+    const method: unknown = keys
+        .map(key => Object.prototype.hasOwnProperty.call(inst, key)
+            ? Reflect.get(inst, key)
+            : Reflect.get(Cls.prototype, key, inst))
+        .find(fn => typeof fn === 'function');
+    const receiver = shared ? state.proxy : inst;
+    return (typeof method === 'function') ? () => Reflect.apply(method, receiver, []) : undefined;
+}
+
+/**
+ * Dispose of constituent instances asynchronously, one at a time in reverse order,
+ * using their synchronous disposal method when they have no asynchronous one.
+ * @param state - The state of the conjugated instance.
+ * @param parts - The constituent instances, in construction order.
+ * @return A promise of the failures, in disposal order.
+ */
+async function release(state: IConjugateState, parts: readonly IAttachment[]): Promise<unknown[]> {
+    const errors: unknown[] = [];
+    for (const part of [...parts].reverse()) {
+        try {
+            await hookOf(state, part, [Symbol.asyncDispose, Symbol.dispose])?.();
+        } catch (error) {
+            errors.push(error);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Error reporting every failure of a step over all constituents of a conjugated instance: the failure itself when
+ * alone, else each later failure suppressing the earlier ones, like DisposableStack, or all of them where
+ * SuppressedError is not available.
+ * @param message - The message of the error, when there are several failures.
+ * @param errors - The failures, in order.
+ * @return The error to throw.
+ */
+function failure(message: string, errors: readonly unknown[]): unknown {
+    if (errors.length === 1) {
+        return errors[0];
+    }
+    if (typeof SuppressedError === 'function') {
+        return errors.reduce((suppressed, error) => new SuppressedError(error, suppressed, message));
+    }
+    return new AggregateError(errors, message);
+}
+
+/**
+ * Members every conjugated instance takes from ConjugateBase when no constituent defines them.
+ */
+const defaults = new Set<string | symbol>(['toJSON']);
+
+/**
+ * Key of the own properties of the conjugated instance itself in snapshots grouped by constituent.
+ */
+const selfKey = 'this';
+
+/**
+ * Label each class by its name, numbering repeated names with the position of the class.
+ * @param Classes - The classes to label.
+ * @return The labels, in class order.
+ */
+function labelsOf(Classes: readonly Function[]): string[] {
+    return Classes.map((C, i) => (Classes.findIndex(other => other.name === C.name) === i) ? C.name : `${C.name}#${i}`);
+}
+
+/**
+ * Labels of the constituents in snapshots: their names when given, their class names otherwise.
+ * @param composition - The composition of the class.
+ * @return The labels, in class order.
+ */
+function groupsOf(composition: IComposition): string[] {
+    return composition.options.names?.slice() ?? labelsOf(composition.classes);
+}
+
+/**
+ * Create a constituent instance without running its constructor.
+ * Classes depending on the identity of their instances cannot do without, and are constructed without arguments.
+ * @param composition - The composition of the class.
+ * @param index - The index of the constituent.
+ * @return The constituent instance, holding no state but what its constructor may set.
+ */
+function blank(composition: IComposition, index: number): object {
+    const Cls = composition.classes[index];
+    return composition.branded[index] ? Reflect.construct(Cls, []) as object : Object.create(Cls.prototype);
+}
+
+/**
+ * Split a merged snapshot into the fields of each constituent, under their own keys, followed by those of
+ * the instance itself. A field goes to the first constituent in lookup order declaring it, as seen on instances
+ * constructed before; the instance itself keeps the fields no constituent declares.
+ * @param composition - The composition of the class.
+ * @param data - The merged snapshot.
+ * @return The fields of each constituent in class order, then those of the instance itself.
+ */
+function routed(composition: IComposition, data: object): Record<string | symbol, unknown>[] {
+    const groups = [...composition.classes.map(() => ({})), {}] as Record<string | symbol, unknown>[];
+    Object.entries(data).forEach(([name, value]) => {
+        for (const layer of composition.layers) {
+            const exposure = composition.exposures[layer.index];
+            const key = (exposure === undefined) ? name : exposure.keyOf(name);
+            if (layer.kind === 'prototype' || key === undefined) {
+                continue;
+            }
+            const Cls = composition.classes[layer.index];
+            const declared = fieldsOf(Cls);
+            if (declared === undefined) {
+                throw new TypeError(
+                    `Cannot tell which constituent of ${composition.name} owns field ${name} `
+                    + `before a ${Cls.name} is constructed; use json: 'constituents'.`,
+                );
+            }
+            if (declared.has(key)) {
+                groups[layer.index][key] = value;
+                return;
+            }
+        }
+        groups[composition.classes.length][name] = value;
+    });
+    return groups;
+}
+
+/**
+ * Restore properties of a snapshot on an object: through the composed view where it already has them,
+ * as own data properties otherwise.
+ * @param target - The object to restore the properties on.
+ * @param data - The properties to restore.
+ */
+function restore(target: object, data: object): void {
+    Object.entries(data).forEach(([key, value]) => {
+        if (Object.prototype.hasOwnProperty.call(target, key)) {
+            Reflect.set(target, key, value);
+        } else {
+            Reflect.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+        }
+    });
+}
+
+/**
+ * Copy the own properties of an object onto another, copying their values deeply.
+ * @param target - The object to copy onto.
+ * @param source - The object to copy from.
+ * @param copies - Copies made so far, by original, so shared and circular references are kept.
+ */
+function assign(target: object, source: object, copies: Map<object, unknown>): void {
+    Reflect.ownKeys(source).forEach(key => {
+        const desc = Reflect.getOwnPropertyDescriptor(source, key) as PropertyDescriptor;
+        if ('value' in desc) {
+            desc.value = copy(desc.value, copies);
+        }
+        Reflect.defineProperty(target, key, desc);
+    });
+}
+
+/**
+ * Deep copy of a value. Objects keep their prototype and property descriptors, conjugated instances are cloned,
+ * and host objects are structured-cloned when possible; functions and other host objects are shared.
+ * @param value - The value to copy.
+ * @param copies - Copies made so far, by original, so shared and circular references are kept.
+ * @return The copy.
+ */
+function copy(value: unknown, copies: Map<object, unknown>): unknown {
+    if (!ConjugateBase.isObject(value)) {
+        return value;
+    }
+    if (copies.has(value)) {
+        return copies.get(value);
+    }
+    if (states.get(value)?.proxy === value) {
+        return cloneOf(value, copies);
+    }
+    const proto = Reflect.getPrototypeOf(value);
+    const Ctor: unknown = (proto === null) ? undefined : Reflect.getOwnPropertyDescriptor(proto, 'constructor')?.value;
+    const isHost = typeof Ctor === 'function' && Ctor !== Object
+        && /\[native code\]\s*\}$/.test(Function.prototype.toString.call(Ctor));
+    let result: object;
+    if (value instanceof Map || value instanceof Set || Array.isArray(value)) {
+        result = (value instanceof Map) ? new Map() : (value instanceof Set) ? new Set() : [];
+        Reflect.setPrototypeOf(result, proto);
+    } else if (isHost) {
+        try {
+            result = structuredClone(value) as object;
+        } catch {
+            result = value;
+        }
+        copies.set(value, result);
+        return result;
+    } else {
+        result = Object.create(proto) as object;
+    }
+    copies.set(value, result);
+    if (value instanceof Map) {
+        value.forEach((v, k) => (result as Map<unknown, unknown>).set(copy(k, copies), copy(v, copies)));
+    } else if (value instanceof Set) {
+        value.forEach(v => (result as Set<unknown>).add(copy(v, copies)));
+    }
+    assign(result, value, copies);
+    return result;
+}
+
+/**
+ * Clone a conjugated instance: its constituent instances and own properties are copied deeply,
+ * and the copy is a conjugated instance of the same class, built without running constructors.
+ * @param target - The conjugated instance.
+ * @param copies - Copies made so far, by original, so shared and circular references are kept.
+ * @return The clone.
+ */
+function cloneOf(target: object, copies: Map<object, unknown>): object {
+    const state = stateOf(target);
+    const view = state.proxy;
+    const Self = Reflect.getPrototypeOf(view)?.constructor;
+    const instances = state.instances.map((inst, i) => (inst === undefined) ? undefined : blank(state, i));
+    const clone = rebuild(Self as Function, instances);
+    copies.set(view, clone);
+    state.instances.forEach((inst, i) => {
+        if (ConjugateBase.isObject(inst)) {
+            copies.set(inst, instances[i]);
+        }
+    });
+    state.instances.forEach((inst, i) => {
+        if (ConjugateBase.isObject(inst)) {
+            assign(instances[i] as object, inst, copies);
+        }
+    });
+
+    // Own properties of the instance itself; flat instances also hold the fields of shared constituents.
+    Reflect.ownKeys(view).forEach(key => {
+        const { source } = state.explain(key);
+        const held = !!state.options.flat && source.kind === 'instance' && state.shared[source.index];
+        if (source.kind === 'self' || held) {
+            const desc = Reflect.getOwnPropertyDescriptor(view, key) as PropertyDescriptor;
+            if ('value' in desc) {
+                desc.value = copy(desc.value, copies);
+            }
+            Reflect.defineProperty(clone, key, desc);
+        }
+    });
+    return clone;
+}
 
 /**
  * Base class for all conjugated classes and static typed helpers.
  */
 class ConjugateBase implements IConjugateBase {
+    /**
+     * Static key under which a class lists the members it requires from the rest of a composition,
+     * i.e. from another constituent or a subclass of the conjugated class.
+     */
+    static readonly requires: unique symbol = Symbol('ConjugateBase.requires');
+
+    /**
+     * Static key under which a class declares whether its methods must run against its own instance in unified mode,
+     * e.g. because they key private state on it. Without it, classes whose source declares `#private` members or that
+     * extend host classes are.
+     */
+    static readonly isolated: unique symbol = Symbol('ConjugateBase.isolated');
+
+    /**
+     * Key under which a constituent defines its asynchronous initializer, awaited by `create`.
+     */
+    static readonly init: typeof initKey = initKey;
+
     /**
      * Generic typed version of Reflect.has for objects.
      * @param target - The object to check for the property.
@@ -24,7 +351,7 @@ class ConjugateBase implements IConjugateBase {
         T extends unknown,
         K extends PropertyKey,
     >(target: T, key: K): K extends keyof T ? true : false {
-        if (!ConjugateBase.isObject(target)) {
+        if (!ConjugateBase.isTarget(target)) {
             throw new TypeError('Target must be a non-null object.');
         }
         return Reflect.has(target, key) as K extends keyof T ? true : false;
@@ -45,7 +372,7 @@ class ConjugateBase implements IConjugateBase {
         K extends string | symbol,
         R extends unknown,
     >(target: T, key: K, receiver: R): K extends keyof T ? T[K] : never {
-        if (!ConjugateBase.isObject(target)) {
+        if (!ConjugateBase.isTarget(target)) {
             throw new TypeError('Target must be a non-null object.');
         }
         return Reflect.get(target, key, receiver) as K extends keyof T ? T[K] : never
@@ -69,7 +396,7 @@ class ConjugateBase implements IConjugateBase {
         V extends unknown,
         R extends unknown,
     >(target: T, key: K, value: V, receiver: R): boolean {
-        if (!ConjugateBase.isObject(target)) {
+        if (!ConjugateBase.isTarget(target)) {
             throw new TypeError('Target must be a non-null object.');
         }
         return Reflect.set(target, key, value, receiver);
@@ -84,7 +411,7 @@ class ConjugateBase implements IConjugateBase {
     static ownKeys<
         T extends unknown,
     >(target: T): (keyof T & (string | symbol))[] {
-        if (!ConjugateBase.isObject(target)) {
+        if (!ConjugateBase.isTarget(target)) {
             throw new TypeError('Target must be a non-null object.');
         }
         return Reflect.ownKeys(target) as (keyof T & (string | symbol))[];
@@ -110,6 +437,7 @@ class ConjugateBase implements IConjugateBase {
 
     /**
      * Generic function to bind a value to an instance, strictly typed.
+     * Binding the same function to the same instance returns the same bound function.
      * @param value - The value to bind, which can be a function or any other type.
      * @param instance - The instance to which the value should be bound.
      * @template V - The type of the value to bind.
@@ -123,7 +451,406 @@ class ConjugateBase implements IConjugateBase {
         if (!ConjugateBase.isObject(instance)) {
             throw new TypeError('Instance must be a non-null object.');
         }
-        return (typeof value === 'function') ? value.bind(instance) : value;
+        if (typeof value !== 'function') {
+            return value;
+        }
+        const bound = bindings.get(value) ?? new WeakMap<object, Function>();
+        bindings.set(value, bound);
+        if (!bound.has(instance)) {
+            bound.set(instance, value.bind(instance));
+        }
+        return bound.get(instance) as V;
+    }
+
+    /**
+     * Combine a member of several instances: a function calling every implementation in order, or their values.
+     * Instances not defining the member, other than through Object.prototype, are skipped.
+     * @param instances - The instances to combine.
+     * @param key - The member key.
+     * @param receivers - Optional `this` of the implementations of each instance, the instance itself by default.
+     * @return A function returning the results of every implementation, or the array of values.
+     */
+    static combine(
+        instances: readonly unknown[],
+        key: PropertyKey,
+        receivers: readonly unknown[] = instances,
+    ): unknown {
+        const definers = () => instances.flatMap((inst, i) => (
+            ConjugateBase.isObject(inst) && ConjugateBase.lookup(inst, key, Object.prototype) !== undefined
+        ) ? [i] : []);
+        const indices = definers();
+        if (indices.length === 0 || typeof Reflect.get(instances[indices[0]] as object, key) !== 'function') {
+            return indices.map(i => Reflect.get(instances[i] as object, key));
+        }
+        // Implementations are looked up on every call, so the function can be kept
+        return function (...args: unknown[]) {
+            return definers().map(i => {
+                const member = Reflect.get(instances[i] as object, key);
+                return (typeof member === 'function') ? Reflect.apply(member, receivers[i], args) : member;
+            });
+        };
+    }
+
+    /**
+     * Find the object in a prototype chain that owns a property.
+     * @param target - The object to start the lookup from.
+     * @param key - The property key to look for.
+     * @param until - Optional object at which the lookup stops (exclusive).
+     * @template T - The type of the target object.
+     * @return The owner of the property, or undefined if it is not found before `until`.
+     */
+    static lookup<
+        T extends unknown,
+    >(target: T, key: PropertyKey, until: object | null = null): object | undefined {
+        if (!ConjugateBase.isTarget(target)) {
+            throw new TypeError('Target must be a non-null object.');
+        }
+        for (let o: object | null = target as object; o !== null && o !== until; o = Reflect.getPrototypeOf(o)) {
+            if (Object.prototype.hasOwnProperty.call(o, key)) {
+                return o;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Get the implementations following a class in the resolution order of a conjugated instance.
+     * Lets cooperative methods (init, dispose, toJSON, ...) chain through every composed class.
+     * @param self - The conjugated instance, or one of its constituent instances.
+     * @param Cls - The constituent class whose successors should be resolved.
+     * @template CTypes - The tuple of classes of the conjugated instance.
+     * @template PTypes - The tuple of classes in the order their members are preferred.
+     * @template M - The type of the constituent class.
+     * @return A view resolving members on the prototypes of the classes following Cls, in order,
+     * empty when Cls is the last one.
+     */
+    static superOf<
+        CTypes extends unknown[],
+        PTypes extends unknown[],
+        M extends CTypes[number],
+    >(self: IConjugated<CTypes, PTypes>, Cls: M): ISuper<PTypes, M> {
+        const state = stateOf(self);
+        const Proto: object = (Cls as IClass<unknown, any>).prototype;
+        const prototypes = state.layers.flatMap(layer => (layer.kind === 'prototype') ? [layer] : []);
+        const position = prototypes.findIndex(layer => layer.target === Proto);
+        if (!state.classes.includes(Cls as IClass<unknown, any>) || position < 0) {
+            throw new TypeError('Class must be a constituent of the conjugated instance.');
+        }
+
+        // Prototypes following Cls in lookup order, except its own ancestors which `super` already reaches.
+        const following = prototypes
+            .slice(position + 1)
+            .filter(layer => !Object.prototype.isPrototypeOf.call(layer.target, Proto));
+        const next = (prop: string | symbol) => following.find(
+            layer => Object.prototype.hasOwnProperty.call(layer.target, prop),
+        );
+
+        return new Proxy(Object.create(null), {
+            has(target, prop) {
+                return next(prop) !== undefined;
+            },
+            get(target, prop) {
+                const layer = next(prop);
+                if (layer === undefined) {
+                    return undefined;
+                }
+                const v = ConjugateBase.get(layer.target, prop, state.proxy);
+                const inst = state.build(layer.index);
+                const instance = state.shared[layer.index] ? state.proxy : inst;
+                return ConjugateBase.bounded(v, instance);
+            },
+        });
+    }
+
+    /**
+     * Check if a value is a conjugated instance composed of a class, or of a class extending it.
+     * @param obj - The value to check.
+     * @param Cls - The class to look for.
+     * @template C - The type of the class.
+     * @return True if obj is an instance of Cls, or one of its constituents is.
+     */
+    static isComposedOf<
+        C extends IClass<unknown, any>,
+    >(obj: unknown, Cls: C): obj is InstanceType<C> {
+        // Ordinary instanceof semantics, bypassing any Symbol.hasInstance override.
+        const isInstance = (value: unknown) => Function.prototype[Symbol.hasInstance].call(Cls, value);
+        if (isInstance(obj)) {
+            return true;
+        }
+        const state = ConjugateBase.isObject(obj) ? states.get(obj) : undefined;
+        if (state === undefined || state.proxy !== obj) {
+            return false;
+        }
+        // Lazy constituents not constructed yet are instances of their class to be.
+        return state.instances.some(isInstance) || state.classes.some((C, i) => state.instances[i] === undefined
+            && (C === Cls || Object.prototype.isPrototypeOf.call(Cls.prototype, C.prototype)))
+            || state.attachments.some(({ instance }) => isInstance(instance));
+    }
+
+    /**
+     * List the constituent classes of a conjugated class or instance.
+     * @param target - The conjugated class (or a subclass of it), or a conjugated instance.
+     * @return The constituent classes, in argument order.
+     */
+    static constituentsOf(target: unknown): IClass<unknown, any>[] {
+        return [...ConjugateBase.compositionOf(target).classes];
+    }
+
+    /**
+     * Inspect the method resolution order of a conjugated class or instance.
+     * @param target - The conjugated class (or a subclass of it), or a conjugated instance.
+     * @return The classes whose prototypes are consulted, in lookup order (ending with Object).
+     */
+    static mroOf(target: unknown): Function[] {
+        return ConjugateBase.compositionOf(target).layers.flatMap(
+            layer => (layer.kind === 'prototype')
+                ? [Reflect.getOwnPropertyDescriptor(layer.target, 'constructor')?.value as Function]
+                : [],
+        );
+    }
+
+    /**
+     * Attach a constituent to a conjugated instance at runtime, e.g. a plugin. Its members are consulted after those
+     * of every other constituent, and the instance satisfies instanceof for its class until it is detached.
+     * @param target - The conjugated instance, or one of its constituent instances.
+     * @param mixin - The class or mixin factory to construct the constituent from.
+     * @param args - The constructor arguments of the constituent.
+     * @template T - The type of the conjugated instance.
+     * @template M - The type of the class or mixin factory.
+     * @return The conjugated instance, typed with the members of the constituent.
+     */
+    static attach<
+        T extends object,
+        M extends IClass<unknown, any> | IFactory,
+    >(target: T, mixin: M, args?: ConstructorParameters<IClassOf<M>>): IAttached<T, InstanceType<IClassOf<M>>>;
+    /**
+     * Attach an existing instance to a conjugated instance at runtime, as a constituent of its own class.
+     * @param target - The conjugated instance, or one of its constituent instances.
+     * @param instance - The instance to attach.
+     * @template T - The type of the conjugated instance.
+     * @template I - The type of the instance.
+     * @return The conjugated instance, typed with the members of the attached instance.
+     */
+    static attach<
+        T extends object,
+        I extends object,
+    >(target: T, instance: I): IAttached<T, I>;
+    static attach(target: unknown, mixin: unknown, args: unknown[] = []): unknown {
+        const state = stateOf(target);
+        if (typeof mixin === 'function') {
+            const Cls = classOf(mixin as IMixin);
+            state.attach(Cls, ConjugateBase.construct(Cls, args) as object);
+        } else if (ConjugateBase.isObject(mixin)) {
+            if (states.has(mixin)) {
+                throw new TypeError('Instance is already a constituent of a conjugated instance.');
+            }
+            const Cls: unknown = Reflect.getPrototypeOf(mixin)?.constructor;
+            state.attach((typeof Cls === 'function') ? Cls as IClass<unknown, any> : Object, mixin);
+        } else {
+            throw new TypeError('Attached constituents must be classes, mixin factories or instances.');
+        }
+        return state.proxy;
+    }
+
+    /**
+     * Detach a constituent attached at runtime: the instance given, or the last one attached of the class given.
+     * Detaching does not dispose of the constituent.
+     * @param target - The conjugated instance, or one of its constituent instances.
+     * @param mixin - The attached instance, or its class or mixin factory.
+     * @return The detached instance, or undefined if no attached constituent matches.
+     */
+    static detach(target: unknown, mixin: IMixin): object | undefined {
+        const state = stateOf(target);
+        const Cls = (typeof mixin === 'function') ? classOf(mixin) : undefined;
+        const attachment = [...state.attachments].reverse().find(
+            ({ class: C, instance }) => instance === mixin || C === Cls,
+        );
+        if (attachment !== undefined) {
+            state.detach(attachment);
+        }
+        return attachment?.instance;
+    }
+
+    /**
+     * Subscribe to the changes made through an observable conjugated instance: every successful assignment,
+     * definition and deletion, with the values before and after, and the constituent class owning the property.
+     * @param target - The conjugated instance, created with the `observable` option.
+     * @param listener - The function receiving the changes, one at a time or a whole batch at once.
+     * @template T - The type of the instance.
+     * @return A function ending the subscription.
+     */
+    static subscribe<T extends object>(target: T, listener: IListener<T>): () => void {
+        const { listeners } = ConjugateBase.observerOf(target);
+        listeners.add(listener as IListener);
+        return () => {
+            listeners.delete(listener as IListener);
+        };
+    }
+
+    /**
+     * End a subscription to the changes made through an observable conjugated instance.
+     * @param target - The conjugated instance.
+     * @param listener - The function given to subscribe.
+     * @template T - The type of the instance.
+     * @return True if the listener was subscribed, false otherwise.
+     */
+    static unsubscribe<T extends object>(target: T, listener: IListener<T>): boolean {
+        return ConjugateBase.observerOf(target).listeners.delete(listener as IListener);
+    }
+
+    /**
+     * Run a function, reporting the changes it makes through an observable conjugated instance at once,
+     * when it returns or throws. Nested batches are reported with the outermost one.
+     * @param target - The conjugated instance.
+     * @param fn - The function making the changes.
+     * @template R - The type of the result of the function.
+     * @return The result of the function.
+     */
+    static batch<R>(target: object, fn: () => R): R {
+        return ConjugateBase.observerOf(target).batch(fn);
+    }
+
+    /**
+     * Get the subscribers of an observable conjugated instance.
+     * @param target - The conjugated instance.
+     * @return The observer.
+     */
+    private static observerOf(target: unknown): IObserver {
+        const state = stateOf(target);
+        if (state.observer === undefined) {
+            throw new TypeError(`${state.name} is not observable.`);
+        }
+        return state.observer;
+    }
+
+    /**
+     * Explain where a property of a conjugated instance is resolved,
+     * without running getters or constructing lazy constituents.
+     * @param target - The conjugated instance, or one of its constituent instances.
+     * @param key - The property key.
+     * @return The places consulted in lookup order, and the one reading the property resolves to.
+     */
+    static explain(target: unknown, key: string | symbol): IExplanation {
+        return stateOf(target).explain(key);
+    }
+
+    /**
+     * Take a snapshot of the state of a conjugated instance: the enumerable own properties of the composed view.
+     * Grouped by constituent, properties are listed under the constituent they resolve to, and those of the
+     * instance itself under `this`; constituents not constructed yet are left out.
+     * @param target - The conjugated instance, or one of its constituent instances.
+     * @param mode - The shape of the snapshot, the `json` option of the class by default.
+     * @return The snapshot.
+     */
+    static snapshot(target: unknown, mode?: ISnapshotMode): Record<string, unknown> {
+        const state = stateOf(target);
+        const view = state.proxy;
+        // Constituents attached at runtime are not part of the class, so neither of its snapshots
+        const entries = Object.keys(view)
+            .filter(key => state.explain(key).source.kind !== 'attachment')
+            .map(key => [key, Reflect.get(view, key)] as const);
+        if ((mode ?? state.options.json ?? 'merged') === 'merged') {
+            return Object.fromEntries(entries);
+        }
+        const groups: Record<string, unknown>[] = [{}, ...state.classes.map(() => ({}))];
+        entries.forEach(([key, value]) => {
+            const { source } = state.explain(key);
+            groups[(source.kind === 'instance' || source.kind === 'prototype') ? source.index + 1 : 0][key] = value;
+        });
+        const labels = [selfKey, ...groupsOf(state)];
+        return Object.fromEntries(groups.flatMap((group, i) => (
+            i === 0 || state.instances[i - 1] !== undefined ? [[labels[i], group]] : []
+        )));
+    }
+
+    /**
+     * Rebuild a conjugated instance from a snapshot, without running the constructors of the class
+     * nor of its constituents, except for constituents that depend on the identity of their instances.
+     * Constituents missing from a grouped snapshot are constructed without arguments, lazily if so declared.
+     * A merged snapshot gives each field to the first constituent in lookup order seen to declare it
+     * on an instance constructed before, and the rest to the instance itself.
+     * @param this - The conjugated class, or a class extending it.
+     * @param data - The snapshot, in the shape given by the `json` option of the class.
+     * @template T - The type of the instance.
+     * @return The instance.
+     */
+    static revive<T>(this: abstract new (...args: any) => T, data: unknown): T {
+        const composition = ConjugateBase.compositionOf(this);
+        if (!ConjugateBase.isObject(data)) {
+            throw new TypeError(`Snapshot of ${composition.name} must be an object.`);
+        }
+        const merged = (composition.options.json ?? 'merged') === 'merged';
+        const labels = groupsOf(composition);
+        const groups: unknown[] = merged
+            ? routed(composition, data)
+            : composition.classes.map((_, i) => Reflect.get(data, labels[i]));
+        const instances = composition.classes.map((_, i) => {
+            const fields = groups[i];
+            if (fields === undefined) {
+                return undefined;
+            }
+            if (!ConjugateBase.isObject(fields)) {
+                throw new TypeError(`Snapshot of ${labels[i]} in ${composition.name} must be an object.`);
+            }
+            const inst = blank(composition, i);
+            restore(inst, fields);
+            return inst;
+        });
+        const instance = rebuild(this, instances);
+        const own: unknown = merged ? groups[composition.classes.length] : Reflect.get(data, selfKey) ?? {};
+        if (!ConjugateBase.isObject(own)) {
+            throw new TypeError(`Snapshot of ${selfKey} in ${composition.name} must be an object.`);
+        }
+        restore(instance, own);
+        return instance as T;
+    }
+
+    /**
+     * Rebuild a conjugated instance from the JSON text of a snapshot, like revive.
+     * @param this - The conjugated class, or a class extending it.
+     * @param json - The JSON text, as produced by JSON.stringify.
+     * @template T - The type of the instance.
+     * @return The instance.
+     */
+    static fromJSON<T>(this: abstract new (...args: any) => T, json: string): T {
+        return ConjugateBase.revive.call(this, JSON.parse(json)) as T;
+    }
+
+    /**
+     * Clone a conjugated instance. Constituent instances and own properties are copied deeply, keeping prototypes,
+     * and the clone is an instance of the same class, built without running constructors.
+     * Private fields cannot be copied: constituents declaring them are constructed anew without arguments.
+     * @param target - The conjugated instance.
+     * @template T - The type of the instance.
+     * @return The clone.
+     */
+    static clone<T extends object>(target: T): T {
+        const state = stateOf(target);
+        return cloneOf(state.proxy, new Map()) as T;
+    }
+
+    /**
+     * Construct a conjugated instance, then await the asynchronous initializer of every constituent,
+     * defined under `ConjugateBase.init`. If one fails, constituents already initialized are disposed of.
+     * @param this - The conjugated class, or a class extending it.
+     * @param args - The constructor arguments.
+     * @template T - The type of the instance.
+     * @template A - The types of the constructor arguments.
+     * @return A promise of the instance, once initialized.
+     */
+    static async create<T, A extends unknown[]>(this: new (...args: A) => T, ...args: A): Promise<T> {
+        const instance = new this(...args);
+        await (instance as IConjugateBase)[initKey]();
+        return instance;
+    }
+
+    /**
+     * Get the composition of a conjugated class or instance.
+     * @param target - The conjugated class (or a subclass of it), or a conjugated instance.
+     * @return The composition.
+     */
+    private static compositionOf(target: unknown): IComposition {
+        return (typeof target === 'function') ? compositionOf(target) : stateOf(target);
     }
 
     /**
@@ -135,8 +862,150 @@ class ConjugateBase implements IConjugateBase {
     static isObject<T extends object>(val: unknown): val is T {
         return typeof val === 'object' && val !== null;
     }
+
+    /**
+     * Helper to check if a value can be the target of a Reflect operation (an object or a class).
+     * @template T - The expected target type.
+     * @param val - The value to check.
+     * @returns True if val is a non-null object or a function, false otherwise.
+     */
+    static isTarget<T extends object>(val: unknown): val is T {
+        return ConjugateBase.isObject(val) || typeof val === 'function';
+    }
+
+    /**
+     * Snapshot of the instance, for JSON.stringify, unless a constituent defines toJSON itself.
+     * @return The snapshot, in the shape given by the `json` option of the class.
+     */
+    toJSON(): Record<string, unknown> {
+        return ConjugateBase.snapshot(this);
+    }
+
+    /**
+     * Dispose of every constituent instance constructed, in reverse construction order, e.g. at the end of a
+     * `using` block. All constituents are disposed of even when some fail; failures are thrown together.
+     */
+    [Symbol.dispose](): void {
+        const state = stateOf(this);
+        const errors: unknown[] = [];
+        partsOf(state).reverse().forEach(part => {
+            try {
+                hookOf(state, part, [Symbol.dispose])?.();
+            } catch (error) {
+                errors.push(error);
+            }
+        });
+        if (errors.length > 0) {
+            throw failure(`Disposing constituents of ${state.name} failed.`, errors);
+        }
+    }
+
+    /**
+     * Dispose of every constituent instance constructed, one at a time in reverse construction order, e.g. at the
+     * end of an `await using` block. Constituents without Symbol.asyncDispose are disposed of synchronously.
+     * @return A promise settled once every constituent is disposed of, rejected with the failures if any.
+     */
+    async [Symbol.asyncDispose](): Promise<void> {
+        const state = stateOf(this);
+        const errors = await release(state, partsOf(state));
+        if (errors.length > 0) {
+            throw failure(`Disposing constituents of ${state.name} failed.`, errors);
+        }
+    }
+
+    /**
+     * Await the initializer of every constituent instance constructed, under `ConjugateBase.init`, in construction
+     * order one at a time, or all at once with the `init: 'concurrent'` option. When one fails, the constituents
+     * already initialized, and those without an initializer, are disposed of before the failure is thrown.
+     * @return A promise settled once every constituent is initialized.
+     */
+    async [initKey](): Promise<void> {
+        const state = stateOf(this);
+        const parts = partsOf(state);
+        const hooks = parts.map(part => hookOf(state, part, [initKey]));
+        // Constituents without an initializer are ready once constructed
+        const ready = hooks.map(hook => hook === undefined);
+        const errors: unknown[] = [];
+        const initialize = async (i: number) => {
+            try {
+                await hooks[i]?.();
+                ready[i] = true;
+            } catch (error) {
+                errors.push(error);
+            }
+        };
+        if (state.options.init === 'concurrent') {
+            await Promise.all(hooks.map((_, i) => initialize(i)));
+        } else {
+            for (let i = 0; i < hooks.length && errors.length === 0; i++) {
+                await initialize(i);
+            }
+        }
+        if (errors.length > 0) {
+            errors.push(...await release(state, parts.filter((_, i) => ready[i])));
+            throw failure(`Initializing constituents of ${state.name} failed.`, errors);
+        }
+    }
+
+    /**
+     * Tag reported by Object.prototype.toString: the name of the conjugated class.
+     */
+    get [Symbol.toStringTag](): string {
+        return states.get(this)?.name ?? 'ConjugateBase';
+    }
+
+    /**
+     * Node.js inspection: own properties of the composed view, grouped by the class they originate from.
+     * Node.js inspects the target of a proxy, so the composed view is taken from the state.
+     * @param depth - The remaining depth to inspect.
+     * @param options - The inspection options.
+     * @param inspect - The inspect function of Node.js.
+     * @return The formatted instance, or the instance itself when it is not a conjugated instance.
+     */
+    [inspectKey](
+        depth: number,
+        options: { readonly stylize?: (text: string, style: string) => string },
+        inspect?: (value: unknown, options: object) => string,
+    ): unknown {
+        const state = states.get(this);
+        if (state === undefined || typeof inspect !== 'function') {
+            return this;
+        }
+        const view = state.proxy;
+        const Self = Reflect.getPrototypeOf(this)?.constructor;
+        const name = (typeof Self === 'function' && Self.name !== state.name)
+            ? `${Self.name} [${state.name}]`
+            : state.name;
+        if (depth < 0) {
+            return options.stylize?.(`[${name}]`, 'special') ?? `[${name}]`;
+        }
+
+        // Groups in class order, after properties of the instance itself; repeated class names are numbered.
+        // Constituents attached at runtime follow those of the class.
+        const attached = state.attachments.map(attachment => attachment.class);
+        const groups = [{}, ...state.classes.map(() => ({})), ...attached.map(() => ({}))];
+        Reflect.ownKeys(view).forEach(key => {
+            const { source } = state.explain(key);
+            const index = (source.kind === 'attachment')
+                ? state.classes.length + source.index + 1
+                : (source.kind === 'instance' || source.kind === 'prototype') ? source.index + 1 : 0;
+            const group = groups[index];
+            Reflect.defineProperty(group, key, Reflect.getOwnPropertyDescriptor(view, key) as PropertyDescriptor);
+        });
+        const labels = [
+            (typeof Self === 'function') ? Self.name : state.name,
+            ...labelsOf([...state.classes, ...attached]),
+        ];
+        const grouped = Object.fromEntries(groups.flatMap((group, i) => (
+            Reflect.ownKeys(group).length > 0 ? [[labels[i], group]] : []
+        )));
+        // Groups add a level, which does not count against the remaining depth
+        return `${name} ${inspect(grouped, { ...options, depth: depth + 1 })}`;
+    }
 }
 
 export {
     ConjugateBase,
+    intrinsics,
+    defaults,
 };
@@ -0,0 +1,175 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IClass, ICombination } from './typing.js';
+import { ConjugateBase } from './base.js';
+
+/**
+ * Check if a value is thenable, so the next implementation waits for it to settle.
+ * @param value - The value to check.
+ * @return True if the value has a `then` method.
+ */
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+    return ConjugateBase.isTarget(value) && typeof Reflect.get(value, 'then') === 'function';
+}
+
+/**
+ * Call functions in order, waiting for thenable results before the next call.
+ * @param calls - The functions to call.
+ * @param visit - Receives each (settled) result, and returns false to stop.
+ * @return A promise settling once the calls are done, if any result was thenable.
+ */
+function walk(calls: readonly (() => unknown)[], visit: (result: unknown) => boolean): PromiseLike<void> | undefined {
+    for (let i = 0; i < calls.length; i++) {
+        const result = calls[i]();
+        if (isThenable(result)) {
+            const rest = calls.slice(i + 1);
+            return Promise.resolve(result).then(value => visit(value) ? walk(rest, visit) : undefined);
+        }
+        if (!visit(result)) {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Produce the result of a walk, once it is done.
+ * @param pending - The pending walk, if any.
+ * @param result - Produces the result.
+ * @template T - The type of the result.
+ * @return The result, or a promise of it when the walk is pending.
+ */
+function settle<T>(pending: PromiseLike<void> | undefined, result: () => T): T | Promise<T> {
+    return (pending === undefined) ? result() : Promise.resolve(pending).then(result);
+}
+
+/**
+ * Implementations of a member on constituent instances, called against their receiver.
+ * Instances not defining the member, other than through Object.prototype, are skipped; values are returned as-is.
+ * @param instances - The constituent instances, in class order.
+ * @param receivers - The `this` of the implementations of each instance.
+ * @param key - The member key.
+ * @return The implementations, in class order.
+ */
+function implementationsOf(
+    instances: readonly unknown[],
+    receivers: readonly unknown[],
+    key: PropertyKey,
+): ((...args: unknown[]) => unknown)[] {
+    return instances.flatMap((inst, i) => (
+        ConjugateBase.isObject(inst) && ConjugateBase.lookup(inst, key, Object.prototype) !== undefined
+    ) ? [(...args: unknown[]) => {
+        const member = Reflect.get(inst, key);
+        return (typeof member === 'function') ? Reflect.apply(member, receivers[i], args) : member;
+    }] : []);
+}
+
+/**
+ * Built-in method combinations, calling implementations with the arguments of the combined call.
+ */
+const combinators: Record<string, (calls: ((...args: unknown[]) => unknown)[], args: unknown[]) => unknown> = {
+    sequence: (calls, args) => settle(walk(calls.map(f => () => f(...args)), () => true), () => undefined),
+    collect: (calls, args) => {
+        const results: unknown[] = [];
+        return settle(walk(calls.map(f => () => f(...args)), value => results.push(value) > 0), () => results);
+    },
+    pipe: (calls, args) => {
+        // The first implementation receives the arguments, the others the previous result
+        let value: unknown = undefined;
+        const steps = calls.map((f, i) => () => (i === 0) ? f(...args) : f(value));
+        return settle(walk(steps, result => { value = result; return true; }), () => value);
+    },
+    any: (calls, args) => {
+        let found = false;
+        return settle(walk(calls.map(f => () => f(...args)), value => !(found = !!value)), () => found);
+    },
+    all: (calls, args) => {
+        let ok = true;
+        return settle(walk(calls.map(f => () => f(...args)), value => (ok = !!value)), () => ok);
+    },
+};
+
+/**
+ * Prepare the combination of a member across constituents.
+ * @param Classes - The constituent classes.
+ * @param key - The member key.
+ * @param combination - The method combination.
+ * @return A function building the combined member from the constituent instances of a conjugated instance,
+ * and the receivers their implementations are called against.
+ */
+function combinator(
+    Classes: readonly IClass<unknown, any>[],
+    key: string | symbol,
+    combination: ICombination,
+): (instances: readonly unknown[], receivers: readonly unknown[]) => unknown {
+    if (typeof combination === 'string') {
+        const combine = Object.prototype.hasOwnProperty.call(combinators, combination)
+            ? combinators[combination]
+            : undefined;
+        if (combine === undefined) {
+            throw new TypeError(`Unknown method combination for ${String(key)}: ${combination}.`);
+        }
+        return (instances, receivers) => (...args: unknown[]) => combine(
+            implementationsOf(instances, receivers, key),
+            args,
+        );
+    }
+
+    const indexOf = (Cls: IClass<unknown, any>) => {
+        const index = Classes.indexOf(Cls);
+        if (index < 0) {
+            throw new TypeError(`Advice for ${String(key)} must come from a constituent class.`);
+        }
+        return index;
+    };
+    const before = (combination.before ?? []).map(indexOf);
+    const after = (combination.after ?? []).map(indexOf);
+    const around = (combination.around ?? []).map(indexOf);
+    const advisors = [...before, ...after, ...around];
+    const primary = (combination.primary !== undefined)
+        ? [indexOf(combination.primary)]
+        : Classes.map((_, i) => i).filter(i => !advisors.includes(i));
+
+    return (instances, receivers) => (...args: unknown[]) => {
+        const pick = (indices: number[]) => implementationsOf(
+            indices.map(i => instances[i]),
+            indices.map(i => receivers[i]),
+            key,
+        );
+        const [main] = pick(primary);
+        if (main === undefined) {
+            throw new TypeError(`No primary implementation of ${String(key)} to advise.`);
+        }
+        const befores = pick(before);
+        const afters = pick(after);
+        const arounds = pick(around);
+
+        // Before advice, the primary implementation and after advice, returning the primary result
+        const inner = (params: unknown[]) => {
+            const calls = [...befores, main, ...afters].map(f => () => f(...params));
+            let step = 0;
+            let result: unknown = undefined;
+            const pending = walk(calls, value => {
+                if (step++ === befores.length) {
+                    result = value;
+                }
+                return true;
+            });
+            return settle(pending, () => result);
+        };
+        // Around advice, outermost first, proceeding with new arguments or the current ones
+        const wrap = (index: number, params: unknown[]): unknown => (index === arounds.length)
+            ? inner(params)
+            : arounds[index]((...next: unknown[]) => wrap(index + 1, (next.length > 0) ? next : params), ...params);
+        return wrap(0, args);
+    };
+}
+
+export {
+    isThenable,
+    implementationsOf,
+    combinator,
+};
@@ -0,0 +1,81 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IClass } from './typing.js';
+import { chainOf } from './strategy.js';
+
+/**
+ * Find members defined by more than one constituent.
+ * Members inherited from a shared ancestor (a diamond) are defined once and do not conflict.
+ * @param Classes - The constituent classes.
+ * @param instances - Constituent instances, whose own fields are included when given.
+ * @param exempt - Members with an explicit resolution.
+ * @param nameOf - Name each constituent exposes a key under, if any; every key is exposed as-is by default.
+ * @return The conflicting members, with the names of the classes defining them.
+ */
+function conflictsOf(
+    Classes: readonly IClass<unknown, any>[],
+    instances: readonly unknown[],
+    exempt: readonly PropertyKey[],
+    nameOf: (index: number, key: string | symbol) => string | symbol | undefined = (_, key) => key,
+): Map<string | symbol, string[]> {
+    // Member → defining object → indices of the constituents reaching it
+    const definitions = new Map<string | symbol, Map<object, Set<number>>>();
+    const define = (own: string | symbol, owner: object, index: number) => {
+        const key = nameOf(index, own);
+        if (key === undefined || key === 'constructor' || exempt.includes(key)) {
+            return;
+        }
+        const owners = definitions.get(key) ?? new Map<object, Set<number>>();
+        owners.set(owner, (owners.get(owner) ?? new Set<number>()).add(index));
+        definitions.set(key, owners);
+    };
+
+    Classes.forEach((Cls, i) => {
+        chainOf(Cls)
+            .filter(proto => proto !== Object.prototype)
+            .forEach(proto => Reflect.ownKeys(proto).forEach(key => define(key, proto, i)));
+        const inst = instances[i];
+        if (typeof inst === 'object' && inst !== null) {
+            Reflect.ownKeys(inst).forEach(key => define(key, inst, i));
+        }
+    });
+
+    const conflicts = new Map<string | symbol, string[]>();
+    definitions.forEach((owners, key) => {
+        const indices = new Set([...owners.values()].flatMap(set => [...set]));
+        if (owners.size > 1 && indices.size > 1) {
+            conflicts.set(key, [...indices].sort((a, b) => a - b).map(i => Classes[i].name));
+        }
+    });
+    return conflicts;
+}
+
+/**
+ * Throw if any member is defined by more than one constituent.
+ * @param name - The name of the conjugated class, for the error message.
+ * @param Classes - The constituent classes.
+ * @param instances - Constituent instances, whose own fields are included when given.
+ * @param exempt - Members with an explicit resolution.
+ * @param nameOf - Name each constituent exposes a key under, if any.
+ */
+function assertNoConflicts(
+    name: string,
+    Classes: readonly IClass<unknown, any>[],
+    instances: readonly unknown[],
+    exempt: readonly PropertyKey[],
+    nameOf?: (index: number, key: string | symbol) => string | symbol | undefined,
+): void {
+    const conflicts = conflictsOf(Classes, instances, exempt, nameOf);
+    if (conflicts.size > 0) {
+        const list = [...conflicts].map(([key, names]) => `${String(key)} (${names.join(', ')})`).join(', ');
+        throw new TypeError(`Conflicting members in ${name}: ${list}.`);
+    }
+}
+
+export {
+    conflictsOf,
+    assertNoConflicts,
+};
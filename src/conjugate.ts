@@ -3,31 +3,478 @@
 ** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
 */
 
-import { IClass, IResolve, OpType } from './typing.js';
-import { ConjugateBase } from './base.js';
+import {
+    IAbstractClass,
+    IAttachment,
+    IChange,
+    IClass,
+    IClassDecorator,
+    IClasses,
+    IClassOf,
+    IComposition,
+    IConjugateClass,
+    IConjugateOptions,
+    IConjugated,
+    IConstituentRef,
+    IDecorated,
+    IExplanation,
+    IExposure,
+    ILayer,
+    IListener,
+    IMixin,
+    IPlan,
+    IStrictCheck,
+    ITrace,
+    ITraceSource,
+    OpType,
+} from './typing.js';
+import { ConjugateBase, defaults, intrinsics } from './base.js';
+import { combinator } from './combination.js';
+import { assertNoConflicts } from './conflict.js';
+import { choicesOf, combined, resolved } from './decorator.js';
+import { flatten } from './flat.js';
+import { classOf } from './mixin.js';
+import { observer } from './observer.js';
+import { alias, exposureOf, omit, pick } from './selection.js';
+import { compositions, handover, record, register, unregister, states, track, invalidate } from './state.js';
+import { ancestorsOf, chainOf, linearize } from './strategy.js';
+import { explainer, sourceOf, sources } from './trace.js';
 
 /**
- * A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+ * Classes whose instanceof checks already account for conjugated instances.
+ */
+const adopted = new WeakSet<Function>();
+
+/**
+ * Check if a class is built into the host, e.g. EventTarget, Map or Error:
+ * implemented natively, or exposed as a global under its own name.
+ * @param Cls - The class to check.
+ * @return True if the class belongs to the host.
+ */
+function isHost(Cls: Function): boolean {
+    return /\[native code\]\s*\}$/.test(Function.prototype.toString.call(Cls))
+        || (Cls.name !== '' && Reflect.get(globalThis, Cls.name) === Cls);
+}
+
+/**
+ * Make instanceof checks against a class, and its ancestors, succeed for conjugated instances composed of them.
+ * Classes built into the host, and their ancestors, are left untouched, since they are shared by the whole realm.
+ * @param Cls - The class to adopt.
+ */
+function adopt(Cls: Function): void {
+    for (const C of ancestorsOf(Cls)) {
+        if (isHost(C)) {
+            break;
+        }
+        if (adopted.has(C)) {
+            continue;
+        }
+        adopted.add(C);
+
+        const Self = C;
+        const original: (value: unknown) => boolean = Object.prototype.hasOwnProperty.call(C, Symbol.hasInstance)
+            ? Reflect.get(C, Symbol.hasInstance)
+            : Function.prototype[Symbol.hasInstance];
+        Reflect.defineProperty(C, Symbol.hasInstance, {
+            value: function (this: Function, value: unknown) {
+                return original.call(this, value)
+                    || (this === Self && ConjugateBase.isComposedOf(value, Self as IClass<unknown, any>));
+            },
+            configurable: true,
+        });
+    }
+}
+
+/**
+ * Check if the methods of a class depend on the identity of their instance, as declared under
+ * `ConjugateBase.isolated`, or else because the class, or one of its ancestors, declares private members
+ * or is built into the host. Private members are detected in the source, so only native ones are.
+ * @param Cls - The class to check.
+ * @return True if methods of the class must run against its own instance.
+ */
+function isBranded(Cls: Function): boolean {
+    const declared: unknown = Reflect.get(Cls, ConjugateBase.isolated);
+    if (typeof declared === 'boolean') {
+        return declared;
+    }
+    return ancestorsOf(Cls).some(
+        C => isHost(C) || /#[\p{ID_Start}$_]/u.test(Function.prototype.toString.call(C)),
+    );
+}
+
+/**
+ * Let a constituent instance, whose methods run against itself, see the members of the conjugated instance.
+ * Its prototype is wrapped so that members it lacks are read from, and assigned to, the conjugated instance.
+ * @param inst - The constituent instance.
+ * @param view - The conjugated instance.
+ */
+function splice(inst: object, view: object): void {
+    const proto = Reflect.getPrototypeOf(inst);
+    if (proto === null) {
+        return;
+    }
+    Reflect.setPrototypeOf(inst, new Proxy(proto, {
+        has(target, prop) {
+            return Reflect.has(target, prop) || Reflect.has(view, prop);
+        },
+        get(target, prop, receiver) {
+            return Reflect.has(target, prop) ? Reflect.get(target, prop, receiver) : Reflect.get(view, prop);
+        },
+        set(target, prop, value, receiver) {
+            if (receiver === inst && !Reflect.has(target, prop) && Reflect.has(view, prop)) {
+                return Reflect.set(view, prop, value);
+            }
+            return Reflect.set(target, prop, value, receiver);
+        },
+        getPrototypeOf(target) {
+            // The original prototype stays in the chain, so instanceof keeps working
+            return target;
+        },
+    }));
+}
+
+/**
+ * Compose classes into a conjugated class.
+ * @param options - Options of the conjugated class.
  * @param Classes - Array of mixin classes to combine.
- * @template ITypes - Tuple of instance types.
+ * @param exposures - Members each class exposes, when selected by pick, omit or alias.
+ * @param hosts - Classes whose instances see the members of the conjugated instance, as declared by @conjugate.
  * @template CTypes - Tuple of class types.
- * @returns A new class combining all behaviors.
+ * @template O - The type of the options.
+ * @returns A new class combining all behaviors, including static members.
  */
-function Conjugate<
-    ITypes extends unknown[],
-    CTypes extends { [K in keyof ITypes]: IClass<ITypes[K]> }
+function compose<
+    CTypes extends IAbstractClass<unknown, any>[],
+    O extends IConjugateOptions,
 >(
-    ...Classes: CTypes
-) {
-    type IArgs = { [K in keyof ITypes]: ConstructorParameters<CTypes[K]> };
+    options: O,
+    Classes: readonly IClass<unknown, any>[],
+    exposures: readonly (IExposure | undefined)[] = [],
+    hosts: readonly boolean[] = [],
+): IConjugateClass<CTypes, O> {
+    // Lookup order across constituents, fixed at composition time.
+    const layers = linearize(Classes, options.strategy);
+    const owners = layers.flatMap(layer => (layer.kind === 'instance') ? [layer.index] : []);
+    // In unified and flat modes, methods run against the conjugated instance unless they need their own instance:
+    // classes with private members, and selections, whose methods read members under their own names.
+    const branded = Classes.map(isBranded);
+    const shared = Classes.map((Cls, i) => (
+        !!(options.unified || options.flat) && !branded[i] && exposures[i] === undefined
+    ));
+    const name = `Conjugate<${Classes.map(c => c.name).join(',')}>`;
+    const composition: IComposition = { name, classes: Classes, layers, options, shared, branded, exposures };
+
+    // Explicit member resolutions: the layers a member picked from one class is looked up in,
+    // or the combination of a member across constituents.
+    const resolutions = options.resolve ?? {};
+    const combines = options.combine ?? {};
+    const picked = new Map<string | symbol, typeof layers>();
+    const combinations = new Map<
+        string | symbol,
+        (instances: readonly unknown[], receivers: readonly unknown[]) => unknown
+    >();
+    Reflect.ownKeys(resolutions).forEach(key => {
+        const resolution = resolutions[key];
+        if (resolution === 'all') {
+            combinations.set(key, (instances, receivers) => (
+                ConjugateBase.combine(instances, key, receivers)
+            ));
+            return;
+        }
+        const index = Classes.indexOf(resolution);
+        if (index < 0) {
+            throw new TypeError(`Resolution of ${String(key)} must be a constituent class of ${name} or 'all'.`);
+        }
+        picked.set(key, layers.filter(layer => layer.index === index));
+    });
+    Reflect.ownKeys(combines).forEach(key => {
+        if (Object.prototype.hasOwnProperty.call(resolutions, key)) {
+            throw new TypeError(`Member ${String(key)} cannot be both resolved and combined.`);
+        }
+        combinations.set(key, combinator(Classes, key, combines[key]));
+    });
+    const resolved = [...picked.keys(), ...combinations.keys()];
+
+    // Members each constituent exposes, as selected by pick, omit and alias.
+    // Layers of constituents hiding a member are skipped, and those renaming it look up its own key;
+    // prototypes common to several constituents, or Object.prototype, are not narrowed by the selection of one.
+    const keyOf = (index: number, name: string | symbol) => {
+        const exposure = exposures[index];
+        return (exposure === undefined) ? name : exposure.keyOf(name);
+    };
+    const nameOf = (index: number, key: string | symbol) => {
+        const exposure = exposures[index];
+        return (exposure === undefined) ? key : exposure.nameOf(key);
+    };
+    const exposed = new Map<string | symbol, readonly ILayer[]>();
+    const layersFor = (prop: string | symbol) => {
+        const candidates = picked.get(prop) ?? layers;
+        if (exposures.every(exposure => exposure === undefined)) {
+            return candidates;
+        }
+        let result = exposed.get(prop);
+        if (result === undefined) {
+            result = candidates.flatMap(layer => {
+                if (layer.kind === 'prototype' && layer.common) {
+                    return [layer];
+                }
+                const key = keyOf(layer.index, prop);
+                return (key === undefined) ? [] : (key === prop) ? [layer] : [{ ...layer, key }];
+            });
+            exposed.set(prop, result);
+        }
+        return result;
+    };
+
+    // Position of the prototype layer last found to supply a member, shared by all instances.
+    // Entries are dropped when a constituent class, or one of its ancestors, is invalidated.
+    const cache = new Map<string | symbol, { readonly position: number; readonly version: number }>();
+    const version = track(Classes.flatMap(ancestorsOf));
+
+    // Strict mode rejects overlapping prototype members up front, and overlapping fields on construction.
+    if (options.strict) {
+        assertNoConflicts(name, Classes, [], resolved, nameOf);
+    }
+    // Overlapping fields are only known once constituents are constructed.
+    const check = (instances: readonly unknown[]) => {
+        if (options.strict) {
+            assertNoConflicts(name, Classes, instances, resolved, nameOf);
+        }
+    };
+
+    // Members constituents require from the rest of the composition.
+    // Fields and subclass members only exist once constructed: instances of the composed class itself are checked
+    // on construction, those of subclasses, whose fields are initialized later, on first access of a missing member.
+    const requirements = Classes.flatMap((Cls, index) => {
+        const required: unknown = Reflect.get(Cls, ConjugateBase.requires);
+        if (required === undefined) {
+            return [];
+        }
+        if (!Array.isArray(required) || required.some(key => typeof key !== 'string' && typeof key !== 'symbol')) {
+            throw new TypeError(`Required members of ${Cls.name} must be an array of strings or symbols.`);
+        }
+        return required.map((key: string | symbol) => ({ key, index }));
+    });
+    const requiring = Classes.map((_, i) => requirements.some(({ index }) => index === i));
+    // Constituents seeing the conjugated instance through their prototype, even when not unified
+    const viewing = Classes.map((_, i) => requiring[i] || !!hosts[i]);
+
+    // Report of every property access, when traced; flat classes have no proxy to intercept accesses.
+    const trace = options.trace;
+    if (options.flat && trace !== undefined) {
+        throw new TypeError(`Flat ${name} cannot be traced.`);
+    }
+    const note = (op: ITrace['op'], key: string | symbol, source: ITraceSource) => {
+        trace?.({ op, key, source });
+    };
+
+    // Changes are reported through the proxy; flat classes have none to intercept them.
+    if (options.flat && options.observable) {
+        throw new TypeError(`Flat ${name} cannot be observed.`);
+    }
+
+    // Constituent names, for constructor arguments passed by name.
+    const names = options.names;
+    if (names !== undefined && (names.length !== Classes.length || new Set(names).size !== names.length
+        || names.some(n => typeof n !== 'string'))) {
+        throw new TypeError(`Names of ${name} must be unique strings, one per constituent class.`);
+    }
+
+    // Constructor arguments of each constituent, from positional or named arguments:
+    // a tuple, or a function receiving the instances of its dependencies.
+    const argumentsOf = (args: readonly unknown[]) => {
+        const [named] = args;
+        if (names === undefined || args.length !== 1 || Array.isArray(named) || !ConjugateBase.isObject(named)) {
+            // Omitted tuples are empty
+            return Classes.map((_, i) => args[i] ?? []);
+        }
+        const unknown = Reflect.ownKeys(named).filter(key => !names.includes(key as string));
+        if (unknown.length > 0) {
+            throw new TypeError(`Unknown constituents of ${name}: ${unknown.map(String).join(', ')}.`);
+        }
+        return names.map(n => Reflect.get(named, n) ?? []);
+    };
+
+    // Constituent referenced by its class, index or name.
+    const indexOf = (ref: IConstituentRef) => {
+        let index = (typeof ref === 'function') ? Classes.indexOf(ref) : -1;
+        if (typeof ref === 'string') {
+            index = names?.includes(ref) ? names.indexOf(ref) : /^\d+$/.test(ref) ? Number(ref) : -1;
+        } else if (typeof ref === 'number') {
+            index = ref;
+        }
+        if (!Number.isInteger(index) || index < 0 || index >= Classes.length) {
+            const label = (typeof ref === 'function') ? ref.name : String(ref);
+            throw new TypeError(`Unknown constituent ${label} of ${name}.`);
+        }
+        return index;
+    };
+
+    // Constituents each constituent depends on, and those constructed on first use.
+    const dependencies = options.dependencies ?? {};
+    const requires = Classes.map((): number[] => []);
+    Object.keys(dependencies).forEach(key => {
+        requires[indexOf(key)].push(...dependencies[key].map(indexOf));
+    });
+    const lazy = new Set((options.lazy ?? []).map(indexOf));
+    if (options.flat && lazy.size > 0) {
+        throw new TypeError(`Constituents of flat ${name} cannot be lazy.`);
+    }
+
+    // Dependencies must be constructible in some order.
+    const visited = new Set<number>();
+    const visit = (index: number, path: number[]) => {
+        if (path.includes(index)) {
+            const cycle = [...path.slice(path.indexOf(index)), index].map(i => Classes[i].name);
+            throw new TypeError(`Circular dependency between constituents of ${name}: ${cycle.join(' -> ')}.`);
+        }
+        if (!visited.has(index)) {
+            requires[index].forEach(dep => visit(dep, [...path, index]));
+            visited.add(index);
+        }
+    };
+    Classes.forEach((_, i) => visit(i, []));
+
+    const plan: IPlan = {
+        owners,
+        layersFor,
+        keyOf,
+        nameOf,
+        combinations,
+        required: new Set(requirements.map(({ key }) => key)),
+        verify: provides => {
+            const missing = requirements.filter(({ key }) => !provides(key));
+            if (missing.length > 0) {
+                const list = missing.map(({ key, index }) => `${String(key)} (required by ${Classes[index].name})`);
+                throw new TypeError(`Missing members of ${name}: ${list.join(', ')}.`);
+            }
+        },
+        instantiate: (args, built) => {
+            // Instances handed over by revive or clone; constituents missing there are constructed without arguments.
+            const restored = handover();
+            const params = (restored === undefined) ? argumentsOf(args) : Classes.map(() => []);
+            const instances: unknown[] = restored ?? Classes.map(() => undefined);
+            const constructed = new Set<number>(instances.flatMap((inst, i) => (inst === undefined) ? [] : [i]));
+            let ready = false;
+
+            // Construct a constituent once, after its dependencies.
+            const build = (index: number): unknown => {
+                if (!constructed.has(index)) {
+                    const injected = requires[index].map(build);
+                    const param = params[index];
+                    instances[index] = ConjugateBase.construct(
+                        Classes[index] as IClass<unknown, unknown[]>,
+                        (typeof param === 'function') ? param(...injected) : param as unknown[],
+                    );
+                    record(Classes[index], instances[index]);
+                    constructed.add(index);
+                    if (ready) {
+                        check(instances);
+                        built(index);
+                    }
+                }
+                return instances[index];
+            };
+            Classes.forEach((_, i) => {
+                if (!lazy.has(i)) {
+                    build(i);
+                }
+            });
+            check(instances);
+            ready = true;
+            return { instances, build, constructed };
+        },
+    };
+
+    // Flat classes trade dynamic resolution for plain property access.
+    if (options.flat) {
+        const Flattened = flatten(composition, plan);
+        Classes.forEach(adopt);
+        compositions.set(Flattened, composition);
+        return Flattened as unknown as IConjugateClass<CTypes, O>;
+    }
 
     class Conjugated extends ConjugateBase {
-        constructor(...args: IArgs) {
+        constructor(...args: unknown[]) {
             super();
             const self = this;
 
             // Instantiate all mixin classes, save their instances for later use.
-            const instances = Classes.map((Cls, i) => ConjugateBase.construct(Cls, args[i]));
+            // Lazy ones are constructed once a member of their class is used.
+            const { instances, build, constructed } = plan.instantiate(args, index => join(index));
+
+            // Object the methods of each constituent run against, set once the proxy exists.
+            const receivers: unknown[] = [...instances];
+            const runAs = (index: number, receiver: unknown) => {
+                const inst = build(index);
+                return shared[index] ? receiver : inst;
+            };
+            // Lazy constituents own nothing until constructed, by a member of their class or the full view.
+            const ownedBy = (index: number, prop: string | symbol) => ConjugateBase.isObject(instances[index])
+                && Object.prototype.hasOwnProperty.call(instances[index], prop);
+
+            // Position to resume a lookup from: the cached layer,
+            // if it still owns the member and no earlier instance does.
+            const cachedPosition = (prop: string | symbol, candidates: readonly ILayer[]) => {
+                const hit = cache.get(prop);
+                if (hit === undefined || hit.version !== version.value) {
+                    return 0;
+                }
+                const layer = candidates[hit.position];
+                const key = layer.key ?? prop;
+                if (layer.kind !== 'prototype' || !Object.prototype.hasOwnProperty.call(layer.target, key)) {
+                    return 0;
+                }
+                // Prototypes only change the resolution once invalidated, fields of instances at any time
+                for (let position = 0; position < hit.position; position++) {
+                    const earlier = candidates[position];
+                    if (earlier.kind === 'instance' && ownedBy(earlier.index, earlier.key ?? prop)) {
+                        return 0;
+                    }
+                }
+                return hit.position;
+            };
+
+            // Combined methods of this instance, by key.
+            const combined = new Map<string | symbol, Function>();
+
+            // Constituents attached at runtime, consulted after every other one,
+            // and the original prototypes of those spliced into the composition.
+            const attachments: IAttachment[] = [];
+            const spliced = new Map<object, object | null>();
+
+            // Keys copied onto self only to satisfy proxy invariants; they never take part in resolution.
+            const mirrored = new Set<string | symbol>();
+
+            // Owner of a property among self and subclass prototypes, then intrinsic members of ConjugateBase.
+            const selfOwner = (prop: string | symbol) => ConjugateBase.lookup(
+                mirrored.has(prop) ? Reflect.getPrototypeOf(self) : self, prop, Conjugated.prototype,
+            ) ?? (intrinsics.has(prop) ? ConjugateBase.lookup(Conjugated.prototype, prop) : undefined);
+
+            // Object owning a property in the composed view: self, else mixin instances (in lookup order),
+            // with the key it holds the property under.
+            const ownerOf = (prop: string | symbol): { owner: object; key: string | symbol } | undefined => {
+                if (!mirrored.has(prop) && Object.prototype.hasOwnProperty.call(self, prop)) {
+                    return { owner: self, key: prop };
+                }
+                for (const i of owners) {
+                    const inst = instances[i];
+                    const key = keyOf(i, prop);
+                    if (ConjugateBase.isObject(inst) && key !== undefined
+                        && Object.prototype.hasOwnProperty.call(inst, key)) {
+                        return { owner: inst, key };
+                    }
+                }
+                const attached = attachments
+                    .find(({ instance }) => Object.prototype.hasOwnProperty.call(instance, prop));
+                return (attached === undefined) ? undefined : { owner: attached.instance, key: prop };
+            };
+
+            // Copy the descriptor of a property owned by a mixin instance onto self.
+            const mirror = (prop: string | symbol, owner: object, key: string | symbol = prop) => {
+                mirrored.add(prop);
+                return Reflect.defineProperty(self, prop, Reflect.getOwnPropertyDescriptor(owner, key) as PropertyDescriptor);
+            };
 
             // Helper to resolve property across self, mixins, base, and prototypes
             // Overload signatures for resolveProperty
@@ -66,7 +513,7 @@ function Conjugate<
                 TProp extends string | symbol,
                 R extends unknown,
             >(
-                op: OpType,
+                op: ITrace['op'],
                 prop: TProp,
                 receiver: R,
                 value: TSet
@@ -81,102 +528,651 @@ function Conjugate<
                         if ((op === OpType.Get || op === OpType.Set) && receiver === undefined) {
                             throw new TypeError('Receiver must be provided for get/set operation.');
                         }
-                        if (op === OpType.Set && value === undefined) {
-                            throw new TypeError('Value must be provided for set operation.');
-                        }
                         break;
                 }
 
-                // 1. self
-                if (ConjugateBase.isObject(self) && self.hasOwnProperty(prop)) {
+                // 1. self, and the prototypes of subclasses extending the conjugated class
+                const owner = selfOwner(prop);
+                if (owner !== undefined) {
+                    note(op, prop, sources.self);
                     switch (op) {
                         case OpType.Has:
                             return true as THas;
                         case OpType.Get: {
-                            const v = ConjugateBase.get(self, prop, receiver);
+                            const v = ConjugateBase.get(owner, prop, receiver);
                             return ConjugateBase.bounded(v, receiver) as TGet;
                         }
                         case OpType.Set:
-                            return ConjugateBase.set(self, prop, value, receiver);
+                            return ConjugateBase.set(owner, prop, value, receiver);
                     }
                 }
 
-                // 2. mixin instances (reverse order)
-                for (let i = instances.length - 1; i >= 0; i -= 1) {
-                    const inst = instances[i];
-                    if (ConjugateBase.isObject(inst) && inst.hasOwnProperty(prop)) {
-                        switch (op) {
-                            case OpType.Has:
-                                return true as THas;
-                            case OpType.Get: {
-                                const v = ConjugateBase.get(inst, prop, receiver);
-                                return ConjugateBase.bounded(v, receiver) as TGet;
+                // 2. members combined across constituents, in class order
+                const combination = combinations.get(prop);
+                if (op === OpType.Get && combination !== undefined) {
+                    note(op, prop, sources.combination);
+                    Classes.forEach((_, i) => build(i));
+                    // Combined methods are built once, so references stay stable like bound methods
+                    const cached = combined.get(prop);
+                    if (cached !== undefined) {
+                        return cached as TGet;
+                    }
+                    const v = combination(instances, receivers);
+                    if (typeof v === 'function') {
+                        combined.set(prop, v);
+                    }
+                    return v as TGet;
+                }
+
+                // 3. mixin instances and prototypes, in the order of the resolution strategy
+                // Accessor halves are paired across classes: a getter-only accessor does not hide a later setter.
+                let readOnly = false;
+                let shadowing = false;
+                const candidates = layersFor(prop);
+                const start = (op === OpType.Get) ? cachedPosition(prop, candidates) : 0;
+                layers: for (let position = start; position < candidates.length; position++) {
+                    const layer = candidates[position];
+                    // Constituents exposing the member under another name hold it under their own key
+                    const key = layer.key ?? prop;
+                    if (layer.kind === 'instance') {
+                        if (ownedBy(layer.index, key)) {
+                            const inst = instances[layer.index];
+                            note(op, prop, sourceOf(Classes, layer));
+                            switch (op) {
+                                case OpType.Has:
+                                    return true as THas;
+                                case OpType.Get: {
+                                    const v = ConjugateBase.get(inst, key, receiver);
+                                    return ConjugateBase.bounded(v, receiver) as TGet;
+                                }
+                                case OpType.Set:
+                                    // The view does not expose renamed fields under their own key
+                                    return ConjugateBase.set(inst, key, value, (key === prop) ? receiver : inst);
                             }
-                            case OpType.Set:
-                                return ConjugateBase.set(inst, prop, value, receiver);
                         }
+                        continue;
+                    }
+
+                    const Proto = layer.target;
+                    const desc = Reflect.getOwnPropertyDescriptor(Proto, key);
+                    if (desc === undefined) {
+                        continue;
+                    }
+                    const isAccessor = 'get' in desc;
+                    switch (op) {
+                        case OpType.Has:
+                            note(op, prop, sourceOf(Classes, layer));
+                            return true as THas;
+                        case OpType.Get: {
+                            if (isAccessor && desc.get === undefined) {
+                                continue;
+                            }
+                            note(op, prop, sourceOf(Classes, layer));
+                            cache.set(prop, { position, version: version.value });
+                            const v = ConjugateBase.get(Proto, key, receiver);
+                            return ConjugateBase.bounded(v, runAs(layer.index, receiver)) as TGet;
+                        }
+                        case OpType.Set:
+                            if (Proto === Object.prototype) {
+                                continue;
+                            }
+                            if (!isAccessor) {
+                                // Inherited data properties are shadowed by an own property, unless read-only
+                                if (!desc.writable) {
+                                    note(op, prop, sourceOf(Classes, layer));
+                                    return false;
+                                }
+                                shadowing = true;
+                                break layers;
+                            }
+                            if (desc.set === undefined) {
+                                readOnly = true;
+                                continue;
+                            }
+                            // Setter runs against the instance of the class declaring it, unless unified
+                            note(op, prop, sourceOf(Classes, layer));
+                            return ConjugateBase.set(Proto, key, value, runAs(layer.index, receiver));
                     }
                 }
 
-                // 3. mixin prototypes (in order)
-                for (let i = 0; i < Classes.length; i += 1) {
-                    const Proto = Classes[i].prototype;
-                    if (ConjugateBase.has(Proto, prop)) {
+                // 4. constituents attached at runtime, in attach order: their instance, then the chain of their class
+                const attached = shadowing ? [] : attachments;
+                attached: for (const [index, { class: Cls, instance: inst, shared: isShared }] of attached.entries()) {
+                    const targets = [inst, ...chainOf(Cls).filter(target => target !== Object.prototype)];
+                    for (const target of targets) {
+                        const desc = Reflect.getOwnPropertyDescriptor(target, prop);
+                        if (desc === undefined) {
+                            continue;
+                        }
+                        const source: ITraceSource = { kind: 'attachment', index, class: Cls, target };
+                        // Own properties are read and assigned through the view, like those of constituents
+                        const runner = (target === inst || isShared) ? receiver : inst;
+                        const isAccessor = 'get' in desc;
+                        if (op === OpType.Get && isAccessor && desc.get === undefined) {
+                            continue;
+                        }
+                        if (op === OpType.Set && target !== inst) {
+                            if (isAccessor && desc.set === undefined) {
+                                readOnly = true;
+                                continue;
+                            }
+                            if (!isAccessor && desc.writable) {
+                                break attached;
+                            }
+                        }
+                        note(op, prop, source);
                         switch (op) {
                             case OpType.Has:
                                 return true as THas;
                             case OpType.Get: {
-                                const v = ConjugateBase.get(Proto, prop, receiver);
-                                return ConjugateBase.bounded(v, instances[i]) as TGet;
+                                const v = ConjugateBase.get(target, prop, receiver);
+                                return ConjugateBase.bounded(v, runner) as TGet;
                             }
+                            case OpType.Set:
+                                // Read-only data properties of prototypes are not shadowed
+                                return (target === inst || isAccessor)
+                                    && ConjugateBase.set(target, prop, value, runner);
                         }
                     }
                 }
 
+                // 5. default members of ConjugateBase, which any constituent may define instead
+                const fallback = (op !== OpType.Set && defaults.has(prop))
+                    ? ConjugateBase.lookup(Conjugated.prototype, prop)
+                    : undefined;
+                if (fallback !== undefined) {
+                    note(op, prop, sources.self);
+                    return (op === OpType.Has)
+                        ? true as THas
+                        : ConjugateBase.bounded(ConjugateBase.get(fallback, prop, receiver), receiver) as TGet;
+                }
+
                 // Not found
+                note(op, prop, sources.none);
                 switch (op) {
                     case OpType.Has:
                         return false as THas;
                     case OpType.Get:
+                        if (plan.required.has(prop)) {
+                            plan.verify(key => Reflect.has(proxy, key));
+                        }
                         return undefined;
                     case OpType.Set:
-                        return ConjugateBase.set(self, prop, value, receiver);
+                        // Assigning to a getter-only accessor fails, like in strict mode
+                        return !readOnly && ConjugateBase.set(self, prop, value, receiver);
                 }
             }
 
+            // Properties are defined where they live, like assignments, so the state is never split;
+            // only properties no constituent owns are defined on the composition itself.
+            const define = (prop: string | symbol, desc: PropertyDescriptor) => {
+                const { owner, key } = ownerOf(prop) ?? { owner: self, key: prop };
+                if (owner === self) {
+                    mirrored.delete(prop);
+                    return Reflect.defineProperty(self, prop, desc);
+                }
+                if (!Reflect.defineProperty(owner, key, desc)) {
+                    return false;
+                }
+                if (mirrored.has(prop) || desc.configurable === false || !Reflect.isExtensible(self)) {
+                    return mirror(prop, owner, key);
+                }
+                return true;
+            };
+
+            // Remove every own definition, so the property is gone from the composed view.
+            const remove = (prop: string | symbol) => {
+                for (let found = ownerOf(prop); found !== undefined; found = ownerOf(prop)) {
+                    if (!Reflect.deleteProperty(found.owner, found.key)) {
+                        return false;
+                    }
+                }
+                return !mirrored.delete(prop) || Reflect.deleteProperty(self, prop);
+            };
+
+            // Subscribers to changes, notified of every successful assignment, definition and deletion, whether made
+            // through the composed view or by a constituent on its own instance. Values are those of own data
+            // properties, read without running getters, and the owner is where a read resolves to.
+            const subscribers = options.observable ? observer() : undefined;
+            const peek = (prop: string | symbol) => {
+                const found = ownerOf(prop);
+                return (found === undefined)
+                    ? undefined
+                    : Reflect.getOwnPropertyDescriptor(found.owner, found.key)?.value;
+            };
+            const holder = (prop: string | symbol) => {
+                const { source } = explain(prop);
+                return ('class' in source) ? source.class : undefined;
+            };
+            // Assignments define the property on their receiver, and assignments through the composed view reach
+            // the owning instance: such nested changes of the same key are part of the outer one.
+            const changing = new Set<string | symbol>();
+            const observe = (op: IChange['op'], prop: string | symbol, change: () => boolean) => {
+                if (subscribers === undefined || changing.has(prop)) {
+                    return change();
+                }
+                const oldValue = peek(prop);
+                const owner = (op === OpType.Delete) ? holder(prop) : undefined;
+                changing.add(prop);
+                try {
+                    if (!change()) {
+                        return false;
+                    }
+                } finally {
+                    changing.delete(prop);
+                }
+                subscribers.notify({
+                    op,
+                    key: prop,
+                    oldValue,
+                    newValue: peek(prop),
+                    class: (op === OpType.Delete) ? owner : holder(prop),
+                } as IChange);
+                return true;
+            };
+            // Constituents running against their own instance are given a proxy of it reporting their changes,
+            // except those needing the instance itself, whose private members a proxy cannot reach.
+            const watch = (index: number, inst: object) => {
+                const observed = (op: IChange['op'], key: string | symbol, change: () => boolean) => {
+                    const name = nameOf(index, key);
+                    return (name === undefined) ? change() : observe(op, name, change);
+                };
+                return new Proxy(inst, {
+                    set(target, key, value, receiver) {
+                        return observed(OpType.Set, key, () => Reflect.set(target, key, value, receiver));
+                    },
+                    defineProperty(target, key, desc) {
+                        return observed(OpType.Define, key, () => Reflect.defineProperty(target, key, desc));
+                    },
+                    deleteProperty(target, key) {
+                        return observed(OpType.Delete, key, () => Reflect.deleteProperty(target, key));
+                    },
+                });
+            };
+
             // Proxy for deterministic property/method resolution.
-            return new Proxy(self, {
+            // Reflective traps route to the object owning the property, so the composition behaves as a single object.
+            const proxy = new Proxy(self, {
                 has(target, prop) {
                     return !!resolveProperty(OpType.Has, prop, undefined, undefined);
                 },
                 get(target, prop, receiver) {
+                    // Frozen properties must be reported as-is
+                    const pinned = Reflect.getOwnPropertyDescriptor(target, prop);
+                    if (pinned !== undefined && !pinned.configurable && pinned.writable === false) {
+                        note(OpType.Get, prop, sources.self);
+                        return pinned.value;
+                    }
                     return resolveProperty(OpType.Get, prop, receiver, undefined);
                 },
                 set(target, prop, value, receiver) {
-                    return !!resolveProperty(OpType.Set, prop, receiver, value);
+                    return observe(OpType.Set, prop, () => !!resolveProperty(OpType.Set, prop, receiver, value));
                 },
                 ownKeys(target) {
+                    // Enumerating the full view constructs lazy constituents, like preventing extensions
                     const keys = new Set<string | symbol>();
                     ConjugateBase.ownKeys(self).forEach(k => keys.add(k));
-                    for (let i = instances.length - 1; i >= 0; i -= 1) {
-                        ConjugateBase.ownKeys(instances[i]).forEach(k => keys.add(k));
-                    }
+                    owners.forEach(i => ConjugateBase.ownKeys(build(i)).forEach(k => {
+                        const name = nameOf(i, k);
+                        if (name !== undefined) {
+                            keys.add(name);
+                        }
+                    }));
+                    attachments.forEach(({ instance }) => ConjugateBase.ownKeys(instance).forEach(k => keys.add(k)));
                     return Array.from(keys);
                 },
+                getOwnPropertyDescriptor(target, prop) {
+                    const found = ownerOf(prop);
+                    if (found === undefined || found.owner === self) {
+                        return Reflect.getOwnPropertyDescriptor(target, prop);
+                    }
+                    const desc = Reflect.getOwnPropertyDescriptor(found.owner, found.key);
+                    // Non-configurable properties must exist on the target as well
+                    if (desc !== undefined && !desc.configurable) {
+                        mirror(prop, found.owner, found.key);
+                    }
+                    return desc;
+                },
+                defineProperty(target, prop, desc) {
+                    return observe(OpType.Define, prop, () => define(prop, desc));
+                },
+                deleteProperty(target, prop) {
+                    return observe(OpType.Delete, prop, () => remove(prop));
+                },
+                getPrototypeOf(target) {
+                    return Reflect.getPrototypeOf(target);
+                },
+                setPrototypeOf(target, proto) {
+                    return Reflect.setPrototypeOf(target, proto);
+                },
+                isExtensible(target) {
+                    return Reflect.isExtensible(target);
+                },
+                preventExtensions(target) {
+                    // A non-extensible target must hold every key it reports, so lazy constituents are constructed
+                    const held = [
+                        ...owners.map(i => ({ inst: build(i) as object, index: i })),
+                        ...attachments.map(({ instance }) => ({ inst: instance, index: -1 })),
+                    ];
+                    for (const { inst, index } of held) {
+                        ConjugateBase.ownKeys(inst).forEach(k => {
+                            const name = (index < 0) ? k : nameOf(index, k);
+                            if (name !== undefined && ownerOf(name)?.owner === inst) {
+                                mirror(name, inst, k);
+                            }
+                        });
+                        Reflect.preventExtensions(inst);
+                    }
+                    return Reflect.preventExtensions(target);
+                },
             });
+
+            // Set up a constructed constituent.
+            // In unified mode, constituents share the conjugated instance: as `this`, or through their prototype.
+            // Constituents requiring members always see those of the conjugated instance through their prototype.
+            const explain = explainer(Classes, plan, prop => selfOwner(prop) !== undefined, instances, attachments);
+
+            // Attach and detach constituents at runtime; a non-extensible instance must keep reporting the same keys.
+            const attach = (Cls: IClass<unknown, any>, inst: object) => {
+                if (!Reflect.isExtensible(self)) {
+                    throw new TypeError(`Cannot attach constituents to a non-extensible ${name}.`);
+                }
+                const isShared = !!options.unified && !isBranded(Cls);
+                if (options.unified && !isShared) {
+                    spliced.set(inst, Reflect.getPrototypeOf(inst));
+                    splice(inst, proxy);
+                }
+                adopt(Cls);
+                attachments.push({ class: Cls, instance: inst, shared: isShared });
+                register(state, [inst]);
+            };
+            const detach = (attachment: IAttachment) => {
+                if (!Reflect.isExtensible(self)) {
+                    throw new TypeError(`Cannot detach constituents from a non-extensible ${name}.`);
+                }
+                attachments.splice(attachments.indexOf(attachment), 1);
+                if (spliced.has(attachment.instance)) {
+                    Reflect.setPrototypeOf(attachment.instance, spliced.get(attachment.instance) ?? null);
+                    spliced.delete(attachment.instance);
+                }
+                unregister([attachment.instance]);
+            };
+            const state = {
+                ...composition,
+                instances,
+                build,
+                constructed,
+                proxy,
+                explain,
+                attachments,
+                attach,
+                detach,
+                observer: subscribers,
+            };
+            const join = (index: number) => {
+                if (subscribers !== undefined && !shared[index] && !branded[index]
+                    && ConjugateBase.isObject(instances[index])) {
+                    instances[index] = watch(index, instances[index]);
+                }
+                const inst = instances[index];
+                receivers[index] = shared[index] ? proxy : inst;
+                if (!shared[index] && (options.unified || viewing[index]) && ConjugateBase.isObject(inst)) {
+                    splice(inst, proxy);
+                }
+                register(state, [inst]);
+            };
+            instances.forEach((inst, i) => {
+                if (inst !== undefined) {
+                    join(i);
+                }
+            });
+
+            // Make the composition reachable from the proxy, the target and every constituent.
+            register(state, [proxy, self]);
+            if (new.target === Conjugated || new.target === Composed) {
+                plan.verify(key => Reflect.has(proxy, key));
+            }
+
+            return proxy;
         }
     }
 
+    // Conjugated instances satisfy instanceof for every constituent class.
+    Classes.forEach(adopt);
+
     // Diagnostic information for debugging and type inference.
     Object.defineProperty(Conjugated, 'name', {
-        value: `Conjugate<${Classes.map(c => c.name).join(',')}>`,
+        value: name,
+    });
+
+    // Mixin class owning a static member, ignoring what every class inherits from Function.prototype.
+    // Classes are consulted in the order their prototypes are.
+    const statics = [...new Set(layers.flatMap(layer => (layer.kind === 'prototype') ? [layer.index] : []))]
+        .map(i => Classes[i]);
+    const staticOwner = (prop: string | symbol) => statics.find(
+        Cls => ConjugateBase.lookup(Cls, prop, Function.prototype) !== undefined,
+    );
+
+    // Proxy for deterministic static member resolution.
+    // Own statics of the conjugated class win, then mixin classes (in order),
+    // then statics inherited from ConjugateBase.
+    const Composed = new Proxy(Conjugated, {
+        has(target, prop) {
+            return Object.prototype.hasOwnProperty.call(target, prop)
+                || staticOwner(prop) !== undefined
+                || ConjugateBase.has(target, prop);
+        },
+        get(target, prop, receiver) {
+            if (Object.prototype.hasOwnProperty.call(target, prop)) {
+                return ConjugateBase.get(target, prop, receiver);
+            }
+            const Owner = staticOwner(prop);
+            if (Owner !== undefined) {
+                // Receiver is kept, so inherited static factories see the composed class as `this`.
+                return ConjugateBase.get(Owner, prop, receiver);
+            }
+            return ConjugateBase.get(target, prop, receiver);
+        },
+        set(target, prop, value, receiver) {
+            if (!Object.prototype.hasOwnProperty.call(target, prop)) {
+                const Owner = staticOwner(prop);
+                if (Owner !== undefined) {
+                    return ConjugateBase.set(Owner, prop, value, Owner);
+                }
+            }
+            return ConjugateBase.set(target, prop, value, receiver);
+        },
     });
 
-    return Conjugated as unknown as IClass<IResolve<CTypes>, IArgs>;
+    compositions.set(Conjugated, composition);
+    compositions.set(Composed, composition);
+
+    return Composed as unknown as IConjugateClass<CTypes, O>;
 }
 
+/**
+ * A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+ * @param Mixins - Array of mixin classes, mixin factories or trait objects to combine.
+ * @template M - Tuple of input types.
+ * @returns A new class combining all behaviors, including static members.
+ */
+function Conjugate<
+    M extends IMixin[],
+>(
+    ...Mixins: M
+): IConjugateClass<IClasses<M>> {
+    return compose<IClasses<M>, {}>({}, Mixins.map(classOf), Mixins.map(exposureOf));
+}
+
+/**
+ * Compose classes into a flat conjugated class, without a proxy.
+ * Members are copied once, so access is as fast as on a plain class, but prototype changes are not reflected.
+ * Methods run against the one instance holding every field, so constructing throws when constituents declare the
+ * same field, unless in unified mode, where the proxy-based composition shares them alike.
+ * @param Mixins - Array of mixin classes, mixin factories or trait objects to combine.
+ * @template M - Tuple of input types.
+ * @returns A new class combining all behaviors, including static members.
+ */
+Conjugate.flat = function <
+    M extends IMixin[],
+>(
+    ...Mixins: M
+): IConjugateClass<IClasses<M>, { readonly flat: true }> {
+    return compose<IClasses<M>, { readonly flat: true }>(
+        { flat: true },
+        Mixins.map(classOf),
+        Mixins.map(exposureOf),
+    );
+};
+
+/**
+ * Get the class standing for a mixin factory or trait object, as composed by Conjugate.
+ * Options and helpers referring to constituent classes, such as `resolve` or `superOf`, take this class.
+ * @param mixin - The class, mixin factory or trait object.
+ * @template M - The type of the input.
+ * @returns The class itself, or the class standing for the factory or trait.
+ */
+Conjugate.classOf = function <
+    M extends IMixin,
+>(mixin: M): IClassOf<M> {
+    return classOf(mixin) as IClassOf<M>;
+};
+
+/**
+ * Invalidate cached member resolutions after changing the prototype of a class, or adding members to it.
+ * Members removed from, or redefined on, the prototype that supplied them are picked up without invalidation.
+ * @param Cls - The class whose prototype changed, or the trait object that changed.
+ */
+Conjugate.invalidate = function (Cls: IMixin): void {
+    invalidate(classOf(Cls));
+};
+
+/**
+ * Configure Conjugate with options, such as the resolution strategy or strict conflict checks.
+ * @param options - Options of the conjugated class.
+ * @template O - The type of the options.
+ * @returns A Conjugate function composing classes with the given options.
+ */
+Conjugate.with = function <
+    const O extends IConjugateOptions,
+>(options: O) {
+    return function <
+        M extends IMixin[],
+    >(
+        ...Mixins: M & IStrictCheck<IClasses<M>, O>
+    ): IConjugateClass<IClasses<M>, O> {
+        return compose<IClasses<M>, O>(options, Mixins.map(classOf), Mixins.map(exposureOf));
+    };
+};
+
+/**
+ * Build a class decorator composing the decorated class with mixins.
+ * A class extending a superclass is reparented onto the composition of its superclass and the mixins,
+ * as if it extended the conjugated class, `super` still reaching the superclass; a class without superclass
+ * is composed as the first constituent.
+ * Constructor arguments go to the superclass, or to the class itself; mixins are constructed without arguments.
+ * @param options - Options of the conjugated class.
+ * @param Mixins - Array of mixin classes, mixin factories or trait objects to combine.
+ * @return The class decorator.
+ */
+function decorate(options: IConjugateOptions, Mixins: readonly IMixin[]): IClassDecorator {
+    return (Target, context) => {
+        if (context.kind !== 'class') {
+            throw new TypeError('@conjugate decorates classes.');
+        }
+        const Super = Reflect.getPrototypeOf(Target);
+        const derived = typeof Super === 'function' && Super !== Function.prototype;
+        const Inputs: IMixin[] = [derived ? Super : Target, ...Mixins];
+        const Composed = compose(
+            choicesOf(Target, options),
+            Inputs.map(classOf),
+            Inputs.map(exposureOf),
+            [!derived],
+        ) as unknown as IClass<object, unknown[]>;
+
+        // Own constructor arguments, as the tuple of the first constituent.
+        class Decorated extends Composed {
+            constructor(...args: unknown[]) {
+                super(args);
+            }
+        }
+        Object.defineProperty(Decorated, 'name', { value: Target.name });
+        if (!derived) {
+            return Decorated as unknown as typeof Target;
+        }
+
+        // `super` in the decorated class reaches past the composition to the members of its declared superclass,
+        // bound to the constituent standing for it, as in the composed view.
+        const Declared = classOf(Super);
+        Reflect.setPrototypeOf(Decorated.prototype, new Proxy(Object.create(Composed.prototype) as object, {
+            get(target, prop, receiver) {
+                const state = (typeof receiver === 'object' && receiver !== null) ? states.get(receiver) : undefined;
+                const index = state?.classes.indexOf(Declared) ?? -1;
+                if (state === undefined || index < 0
+                    || ConjugateBase.lookup(Declared.prototype, prop, Object.prototype) === undefined) {
+                    return Reflect.get(target, prop, receiver);
+                }
+                const inst = state.build(index);
+                const instance = state.shared[index] ? state.proxy : inst;
+                return ConjugateBase.bounded(ConjugateBase.get(Declared.prototype, prop, instance), instance);
+            },
+        }));
+        Reflect.setPrototypeOf(Target, Decorated);
+        Reflect.setPrototypeOf(Target.prototype, Decorated.prototype);
+        return Target;
+    };
+}
+
+/**
+ * Class decorator composing the decorated class with mixins, like Conjugate:
+ * `@conjugate(Mixin) class Derived extends Base { }` behaves as `class Derived extends Conjugate(Base, Mixin)`.
+ * Declare the mixed-in members with `interface Derived extends IDecorated<[typeof Mixin]> { }`.
+ * @param Mixins - Array of mixin classes, mixin factories or trait objects to combine.
+ * @template M - Tuple of input types.
+ * @returns The class decorator.
+ */
+function conjugate<
+    M extends IMixin[],
+>(
+    ...Mixins: M
+): IClassDecorator {
+    return decorate({}, Mixins);
+}
+
+/**
+ * Configure the @conjugate decorator with options, like Conjugate.with.
+ * @param options - Options of the conjugated class.
+ * @template O - The type of the options.
+ * @returns A @conjugate decorator factory composing classes with the given options.
+ */
+conjugate.with = function <
+    const O extends IConjugateOptions,
+>(options: O) {
+    return function <
+        M extends IMixin[],
+    >(
+        ...Mixins: M
+    ): IClassDecorator {
+        return decorate(options, Mixins);
+    };
+};
+
 export {
     ConjugateBase,
     Conjugate,
     Conjugate as C,
+    conjugate,
+    resolved,
+    combined,
+    OpType,
+    pick,
+    omit,
+    alias,
+    type IConjugated,
+    type ITrace,
+    type ITraceSource,
+    type IExplanation,
+    type IChange,
+    type IListener,
+    type IDecorated,
 };
@@ -0,0 +1,94 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { ICombination, IConjugateOptions, IMixin, IResolution } from './typing.js';
+import { classOf } from './mixin.js';
+
+/**
+ * Resolution choices made by member decorators, by the placeholder member they replace.
+ */
+const choices = new WeakMap<Function, Pick<IConjugateOptions, 'resolve' | 'combine'>>();
+
+/**
+ * Kinds of members a resolution choice can be declared on.
+ */
+type IMemberContext = ClassMethodDecoratorContext | ClassGetterDecoratorContext | ClassSetterDecoratorContext;
+
+/**
+ * Create a member decorator replacing its member with a placeholder, which the class decorator turns into an option.
+ * @param choose - The option declared for the member, given its key.
+ * @return The member decorator.
+ */
+function choice(
+    choose: (key: string | symbol) => Pick<IConjugateOptions, 'resolve' | 'combine'>,
+): <F extends Function>(member: F, context: IMemberContext) => F {
+    return (member, context) => {
+        const key = context.name;
+        if (context.static) {
+            throw new TypeError(`Resolution of static member ${String(key)} cannot be declared by a decorator.`);
+        }
+        if (context.private) {
+            throw new TypeError(`Resolution of private member ${String(key)} cannot be declared by a decorator.`);
+        }
+        // Only called when the class is not decorated with @conjugate, which removes it
+        const placeholder = function () {
+            throw new TypeError(`${String(key)} is resolved by @conjugate, which does not decorate its class.`);
+        } as unknown as typeof member;
+        choices.set(placeholder, choose(key));
+        return placeholder;
+    };
+}
+
+/**
+ * Member decorator picking the constituent providing a member of a class decorated with @conjugate,
+ * like the `resolve` option. The decorated member is a placeholder, removed from the class.
+ * @param resolution - The class, mixin factory or trait object providing the member, or `all`.
+ * @return The member decorator.
+ */
+function resolved(resolution: IMixin | 'all'): <F extends Function>(member: F, context: IMemberContext) => F {
+    const Cls: IResolution = (resolution === 'all') ? resolution : classOf(resolution);
+    return choice(key => ({ resolve: { [key]: Cls } }));
+}
+
+/**
+ * Member decorator combining the implementations of a member across constituents of a class decorated with
+ * @conjugate, like the `combine` option. The decorated member is a placeholder, removed from the class.
+ * @param combination - How implementations are combined.
+ * @return The member decorator.
+ */
+function combined(combination: ICombination): <F extends Function>(member: F, context: IMemberContext) => F {
+    return choice(key => ({ combine: { [key]: combination } }));
+}
+
+/**
+ * Collect the resolution choices declared by member decorators on a class, removing their placeholders.
+ * @param Target - The decorated class.
+ * @param options - The options given to @conjugate.
+ * @return The options, with the choices declared on members added.
+ */
+function choicesOf(Target: Function, options: IConjugateOptions): IConjugateOptions {
+    let { resolve, combine } = options;
+    Reflect.ownKeys(Target.prototype).forEach(key => {
+        const desc = Reflect.getOwnPropertyDescriptor(Target.prototype, key) as PropertyDescriptor;
+        const declared = [desc.value, desc.get, desc.set].flatMap(
+            fn => (typeof fn === 'function') ? choices.get(fn) ?? [] : [],
+        );
+        if (declared.length === 0) {
+            return;
+        }
+        declared.forEach(declaration => {
+            resolve = { ...resolve, ...declaration.resolve };
+            combine = { ...combine, ...declaration.combine };
+        });
+        Reflect.deleteProperty(Target.prototype, key);
+    });
+    return { ...options, resolve, combine };
+}
+
+export {
+    resolved,
+    combined,
+    choicesOf,
+};
@@ -0,0 +1,238 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IAttachment, IClass, IComposition, IPlan } from './typing.js';
+import { ConjugateBase, intrinsics } from './base.js';
+import { register, stateOf } from './state.js';
+import { ancestorsOf } from './strategy.js';
+import { explainer } from './trace.js';
+
+/**
+ * Statics every class defines for itself, or installed by Conjugate, which are never copied.
+ */
+const ignored = new Set<PropertyKey>(['prototype', 'name', 'length', Symbol.hasInstance]);
+
+/**
+ * Wrap a function of a constituent that needs its own instance, so calls are forwarded to that instance.
+ * @param fn - The function to wrap.
+ * @param index - The index of the constituent.
+ * @param shared - Whether each constituent runs against the conjugated instance.
+ * @template F - The type of the function.
+ * @return The function itself when shared, or a wrapper forwarding calls to the constituent instance.
+ */
+function forward<F extends Function | undefined>(fn: F, index: number, shared: readonly boolean[]): F {
+    if (fn === undefined || shared[index]) {
+        return fn;
+    }
+    return function (this: unknown, ...args: unknown[]) {
+        return Reflect.apply(fn, stateOf(this).instances[index], args);
+    } as unknown as F;
+}
+
+/**
+ * Descriptor of a prototype member, as resolved for the flat prototype.
+ * Accessor halves are paired across classes, like in the composed view.
+ * @param composition - The composition of the class.
+ * @param plan - The member resolution of the class.
+ * @param key - The member key.
+ * @return The descriptor to define, or undefined if no constituent prototype defines the member.
+ */
+function memberOf(composition: IComposition, plan: IPlan, key: string | symbol): PropertyDescriptor | undefined {
+    const { shared } = composition;
+    let desc: PropertyDescriptor | undefined = undefined;
+    for (const layer of plan.layersFor(key)) {
+        if (layer.kind !== 'prototype' || layer.target === Object.prototype) {
+            continue;
+        }
+        const own = Reflect.getOwnPropertyDescriptor(layer.target, layer.key ?? key);
+        if (own === undefined) {
+            continue;
+        }
+        const isAccessor = 'get' in own;
+        if (desc === undefined) {
+            desc = isAccessor ? {
+                get: forward(own.get, layer.index, shared),
+                set: forward(own.set, layer.index, shared),
+                enumerable: own.enumerable,
+                configurable: true,
+            } : {
+                value: (typeof own.value === 'function') ? forward(own.value, layer.index, shared) : own.value,
+                writable: own.writable,
+                enumerable: own.enumerable,
+                configurable: true,
+            };
+        } else if (isAccessor) {
+            desc.get ??= forward(own.get, layer.index, shared);
+            desc.set ??= forward(own.set, layer.index, shared);
+        }
+        if (!('get' in desc) || (desc.get !== undefined && desc.set !== undefined)) {
+            break;
+        }
+    }
+    return desc;
+}
+
+/**
+ * Build a flat conjugated class: a plain class whose prototype and statics are copied from the constituents once.
+ * Instances are ordinary objects holding the fields of every constituent, so access costs no more than usual,
+ * but prototype changes after composition are not reflected.
+ * @param composition - The composition of the class.
+ * @param plan - The member resolution of the class.
+ * @return The flat class.
+ */
+function flatten(composition: IComposition, plan: IPlan): IClass<object, unknown[]> {
+    const { classes: Classes, layers, shared } = composition;
+
+    class Flattened extends ConjugateBase {
+        constructor(...args: unknown[]) {
+            super();
+
+            const { instances, build, constructed } = plan.instantiate(args, () => undefined);
+
+            // Own fields, the first owner in lookup order winning.
+            // Fields of constituents that need their own instance stay there, behind accessors.
+            const claimed = new Map<string | symbol, number>();
+            plan.owners.forEach(i => {
+                const inst = instances[i];
+                if (!ConjugateBase.isObject(inst)) {
+                    return;
+                }
+                ConjugateBase.ownKeys(inst).forEach(key => {
+                    const name = plan.nameOf(i, key);
+                    if (name === undefined) {
+                        return;
+                    }
+                    const first = claimed.get(name);
+                    if (first !== undefined) {
+                        // Methods of a later owner would read the field of the first, which only unified mode does
+                        if (shared[i] && !composition.options.unified) {
+                            throw new TypeError(
+                                `Flat ${composition.name} cannot merge field ${String(name)} of ${Classes[i].name} `
+                                + `into that of ${Classes[first].name}; alias it, or use unified mode.`,
+                            );
+                        }
+                        return;
+                    }
+                    claimed.set(name, i);
+                    const desc = Reflect.getOwnPropertyDescriptor(inst, key) as PropertyDescriptor;
+                    Reflect.defineProperty(this, name, shared[i] ? desc : {
+                        get: () => Reflect.get(inst, key),
+                        set: (value: unknown) => { Reflect.set(inst, key, value); },
+                        enumerable: desc.enumerable,
+                        configurable: true,
+                    });
+                });
+            });
+
+            // Own properties copied from constituents are explained as theirs.
+            const copied = (name: string | symbol) => plan.owners.some(i => {
+                const key = plan.keyOf(i, name);
+                return key !== undefined && ConjugateBase.isObject(instances[i])
+                    && Object.prototype.hasOwnProperty.call(instances[i], key);
+            });
+            const explain = explainer(Classes, plan, key => (
+                ConjugateBase.lookup(this, key, Flattened.prototype) !== undefined && !copied(key)
+            ), instances, []);
+            // Flat instances have no proxy to route members of attached constituents through.
+            const attachments: IAttachment[] = [];
+            const unsupported = () => {
+                throw new TypeError(`Flat ${composition.name} cannot attach constituents.`);
+            };
+            register({
+                ...composition,
+                instances,
+                build,
+                constructed,
+                proxy: this,
+                explain,
+                attachments,
+                attach: unsupported,
+                detach: unsupported,
+                observer: undefined,
+            }, [this, ...instances]);
+            if (new.target === Flattened) {
+                plan.verify(provides(this));
+            }
+        }
+    }
+
+    // Prototype members, and members combined across constituents, resolved once.
+    const keys = new Set<string | symbol>(plan.combinations.keys());
+    layers.forEach(layer => {
+        if (layer.kind === 'prototype' && layer.target !== Object.prototype) {
+            Reflect.ownKeys(layer.target).forEach(key => {
+                const name = layer.common ? key : plan.nameOf(layer.index, key);
+                if (name !== undefined) {
+                    keys.add(name);
+                }
+            });
+        }
+    });
+    keys.delete('constructor');
+    intrinsics.forEach(key => keys.delete(key));
+    // Combined methods are built once per instance, so references stay stable.
+    const combined = new WeakMap<object, Map<string | symbol, unknown>>();
+    keys.forEach(key => {
+        const combination = plan.combinations.get(key);
+        const desc = (combination === undefined) ? memberOf(composition, plan, key) : {
+            get(this: object) {
+                const members = combined.get(this) ?? new Map<string | symbol, unknown>();
+                combined.set(this, members);
+                if (members.has(key)) {
+                    return members.get(key);
+                }
+                const { instances } = stateOf(this);
+                const v = combination(instances, instances.map((inst, i) => shared[i] ? this : inst));
+                if (typeof v === 'function') {
+                    members.set(key, v);
+                }
+                return v;
+            },
+            configurable: true,
+        };
+        if (desc !== undefined) {
+            Reflect.defineProperty(Flattened.prototype, key, desc);
+        }
+    });
+
+    // Required members no prototype provides are checked on first access, once fields of subclasses exist.
+    const placeholders = new Set([...plan.required].filter(key => !Reflect.has(Flattened.prototype, key)));
+    const provides = (view: object) => (key: string | symbol) => {
+        const holder = ConjugateBase.lookup(view, key);
+        return holder !== undefined && !(holder === Flattened.prototype && placeholders.has(key));
+    };
+    placeholders.forEach(key => Reflect.defineProperty(Flattened.prototype, key, {
+        get(this: object) {
+            plan.verify(provides(this));
+            return undefined;
+        },
+        set(this: object, value: unknown) {
+            Reflect.defineProperty(this, key, { value, writable: true, enumerable: true, configurable: true });
+        },
+        configurable: true,
+    }));
+
+    // Static members, in the order prototypes are consulted; static data stays on the class declaring it.
+    const statics = [...new Set(layers.flatMap(layer => (layer.kind === 'prototype') ? [layer.index] : []))];
+    statics.forEach(i => ancestorsOf(Classes[i]).forEach(C => Reflect.ownKeys(C).forEach(key => {
+        if (ignored.has(key) || Object.prototype.hasOwnProperty.call(Flattened, key)) {
+            return;
+        }
+        const desc = Reflect.getOwnPropertyDescriptor(C, key) as PropertyDescriptor;
+        Reflect.defineProperty(Flattened, key, ('get' in desc || typeof desc.value === 'function') ? desc : {
+            get: () => Reflect.get(C, key),
+            set: (value: unknown) => { Reflect.set(C, key, value); },
+            enumerable: desc.enumerable,
+            configurable: true,
+        });
+    })));
+
+    Object.defineProperty(Flattened, 'name', { value: composition.name });
+    return Flattened;
+}
+
+export {
+    flatten,
+};
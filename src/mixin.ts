@@ -0,0 +1,102 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IClass, IMixin } from './typing.js';
+import { inputOf } from './selection.js';
+
+/**
+ * Classes standing for mixin factories and trait objects, so each is composed as the same class everywhere.
+ */
+const classes = new WeakMap<object, IClass<unknown, any>>();
+
+/**
+ * Check if a function can be called with `new`.
+ * @param fn - The function to check.
+ * @return True for classes and constructor functions, false for arrow functions and methods.
+ */
+function isConstructor(fn: Function): fn is IClass<unknown, any> {
+    try {
+        // Constructs a plain object, without running fn
+        Reflect.construct(Object, [], fn);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check if a function is a class, rather than a function that may be a mixin factory.
+ * @param fn - The function to check.
+ * @return True for class syntax and built-in constructors, whose prototype cannot be replaced.
+ */
+function isClass(fn: Function): fn is IClass<unknown, any> {
+    if (/^class\b/.test(Function.prototype.toString.call(fn))) {
+        return true;
+    }
+    const prototype = Object.getOwnPropertyDescriptor(fn, 'prototype');
+    return prototype !== undefined && prototype.writable === false;
+}
+
+/**
+ * Apply a function that may be a mixin factory to an empty base class.
+ * Constructor functions receive a fresh object as `this`, and may throw when called without `new`.
+ * @param fn - The mixin factory or constructor function.
+ * @return What the function returned, or undefined when a constructor function threw.
+ */
+function applied(fn: Function): unknown {
+    const self = isConstructor(fn) ? Object.create(Object(fn.prototype)) : undefined;
+    try {
+        return Reflect.apply(fn, self, [class { }]);
+    } catch (error) {
+        if (self === undefined) {
+            throw error;
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Class standing for a composable input: a class, a mixin factory or a trait object.
+ * A mixin factory, written as an arrow function or a function, is applied to an empty base class.
+ * A function not returning a class is a constructor function, composed as a class.
+ * A trait object becomes the prototype of the prototype of an empty class, so later changes to it are reflected.
+ * A selection stands for the class of the input it selects from.
+ * @param input - The class, mixin factory, trait object or selection.
+ * @return The class itself, or the class standing for the factory or trait.
+ */
+function classOf(input: IMixin): IClass<unknown, any> {
+    const mixin = inputOf(input);
+    if (typeof mixin === 'function' && isClass(mixin)) {
+        return mixin;
+    }
+    let Cls = classes.get(mixin);
+    if (Cls !== undefined) {
+        return Cls;
+    }
+    if (typeof mixin === 'function') {
+        const product = applied(mixin);
+        if (typeof product === 'function' && isConstructor(product)) {
+            Cls = product;
+            if (Cls.name === '') {
+                Object.defineProperty(Cls, 'name', { value: mixin.name });
+            }
+        } else if (isConstructor(mixin)) {
+            Cls = mixin;
+        } else {
+            throw new TypeError(`Mixin factory ${mixin.name || '(anonymous)'} must return a class.`);
+        }
+    } else if (typeof mixin === 'object' && mixin !== null) {
+        Cls = class Trait { };
+        Reflect.setPrototypeOf(Cls.prototype, mixin);
+    } else {
+        throw new TypeError('Constituents must be classes, mixin factories or trait objects.');
+    }
+    classes.set(mixin, Cls);
+    return Cls;
+}
+
+export {
+    classOf,
+};
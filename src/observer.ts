@@ -0,0 +1,51 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IChange, IListener, IObserver } from './typing.js';
+
+/**
+ * Create the subscribers of an observable conjugated instance.
+ * Changes are reported to every subscriber at the time of the report, in subscription order;
+ * changes made during a batch, including nested ones, are reported once the outermost batch ends.
+ * @return The observer, without subscribers.
+ */
+function observer(): IObserver {
+    const listeners = new Set<IListener>();
+    let pending: IChange[] | undefined = undefined;
+
+    const report = (changes: readonly IChange[]) => {
+        [...listeners].forEach(listener => listener(changes));
+    };
+
+    return {
+        listeners,
+        notify(change) {
+            if (pending !== undefined) {
+                pending.push(change);
+            } else {
+                report([change]);
+            }
+        },
+        batch(fn) {
+            if (pending !== undefined) {
+                return fn();
+            }
+            const changes: IChange[] = pending = [];
+            try {
+                return fn();
+            } finally {
+                // Changes made before a failure happened all the same
+                pending = undefined;
+                if (changes.length > 0) {
+                    report(changes);
+                }
+            }
+        },
+    };
+}
+
+export {
+    observer,
+};
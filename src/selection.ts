@@ -0,0 +1,147 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IAliased, IExposure, IInstanceOf, IMixin, ISelection } from './typing.js';
+
+/**
+ * Selections created by pick, omit and alias: the input they select from, and the members they expose.
+ */
+const selections = new WeakMap<object, { readonly mixin: IMixin; readonly exposure: IExposure }>();
+
+/**
+ * Create a selection of the members of a composable input.
+ * @param mixin - The class, mixin factory, trait object or selection to select from.
+ * @param exposure - The members exposed.
+ * @return The selection, composable like its input.
+ */
+function select(mixin: IMixin, exposure: IExposure): object {
+    const selection = Object.freeze(Object.create(null) as object);
+    selections.set(selection, { mixin, exposure });
+    return selection;
+}
+
+/**
+ * Check the keys given to a selection.
+ * @param keys - The keys.
+ * @return The keys, as a set.
+ */
+function keysOf(keys: readonly unknown[]): Set<string | symbol> {
+    if (keys.some(key => typeof key !== 'string' && typeof key !== 'symbol')) {
+        throw new TypeError('Selected members must be strings or symbols.');
+    }
+    return new Set(keys as (string | symbol)[]);
+}
+
+/**
+ * Expose only some members of a constituent; its other members are left out of the composed view.
+ * @param mixin - The class, mixin factory, trait object or selection to select from.
+ * @param keys - The members to expose.
+ * @template M - The type of the input.
+ * @template K - The keys of the members to expose.
+ * @return A selection, composable like the input.
+ */
+function pick<
+    M extends IMixin,
+    K extends keyof IInstanceOf<M> & (string | symbol),
+>(mixin: M, ...keys: K[]): ISelection<M, Pick<IInstanceOf<M>, K>> {
+    const picked = keysOf(keys);
+    const only = (key: string | symbol) => picked.has(key) ? key : undefined;
+    return select(mixin, { keyOf: only, nameOf: only }) as ISelection<M, Pick<IInstanceOf<M>, K>>;
+}
+
+/**
+ * Leave some members of a constituent out of the composed view.
+ * @param mixin - The class, mixin factory, trait object or selection to select from.
+ * @param keys - The members to leave out.
+ * @template M - The type of the input.
+ * @template K - The keys of the members to leave out.
+ * @return A selection, composable like the input.
+ */
+function omit<
+    M extends IMixin,
+    K extends keyof IInstanceOf<M> & (string | symbol),
+>(mixin: M, ...keys: K[]): ISelection<M, Omit<IInstanceOf<M>, K>> {
+    const omitted = keysOf(keys);
+    const except = (key: string | symbol) => omitted.has(key) ? undefined : key;
+    return select(mixin, { keyOf: except, nameOf: except }) as ISelection<M, Omit<IInstanceOf<M>, K>>;
+}
+
+/**
+ * Expose some members of a constituent under other names, e.g. to settle a name clash.
+ * Renamed members are no longer exposed under their own name.
+ * @param mixin - The class, mixin factory, trait object or selection to select from.
+ * @param names - The new name of each renamed member.
+ * @template M - The type of the input.
+ * @template A - The type of the new names.
+ * @return A selection, composable like the input.
+ */
+function alias<
+    M extends IMixin,
+    const A extends { readonly [K in keyof IInstanceOf<M>]?: string | symbol },
+>(mixin: M, names: A): ISelection<M, IAliased<IInstanceOf<M>, A>> {
+    const renamed = new Map<string | symbol, string | symbol>();
+    Reflect.ownKeys(names).forEach(key => {
+        const name: unknown = Reflect.get(names, key);
+        if (typeof name !== 'string' && typeof name !== 'symbol') {
+            throw new TypeError(`New name of ${String(key)} must be a string or symbol.`);
+        }
+        renamed.set(key, name);
+    });
+    const originals = new Map([...renamed].map(([key, name]) => [name, key]));
+    if (originals.size !== renamed.size) {
+        throw new TypeError('New names of members must be unique.');
+    }
+    return select(mixin, {
+        keyOf: name => originals.get(name) ?? (renamed.has(name) ? undefined : name),
+        nameOf: key => renamed.get(key) ?? (originals.has(key) ? undefined : key),
+    }) as ISelection<M, IAliased<IInstanceOf<M>, A>>;
+}
+
+/**
+ * Input a selection selects from, through nested selections.
+ * @param mixin - The composable input.
+ * @return The class, mixin factory or trait object at the root of the selection, or the input itself.
+ */
+function inputOf(mixin: IMixin): IMixin {
+    for (let entry = selections.get(mixin); entry !== undefined; entry = selections.get(entry.mixin)) {
+        mixin = entry.mixin;
+    }
+    return mixin;
+}
+
+/**
+ * Members a composable input exposes, combining nested selections.
+ * @param mixin - The composable input.
+ * @return The exposure of a selection, or undefined when every member is exposed.
+ */
+function exposureOf(mixin: IMixin): IExposure | undefined {
+    const entry = selections.get(mixin);
+    if (entry === undefined) {
+        return undefined;
+    }
+    const outer = entry.exposure;
+    const inner = exposureOf(entry.mixin);
+    if (inner === undefined) {
+        return outer;
+    }
+    return {
+        keyOf: name => {
+            const key = outer.keyOf(name);
+            return (key === undefined) ? undefined : inner.keyOf(key);
+        },
+        nameOf: key => {
+            const name = inner.nameOf(key);
+            return (name === undefined) ? undefined : outer.nameOf(name);
+        },
+    };
+}
+
+export {
+    pick,
+    omit,
+    alias,
+    inputOf,
+    exposureOf,
+};
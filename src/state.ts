@@ -0,0 +1,170 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IComposition, IConjugateState, IVersion } from './typing.js';
+
+/**
+ * Registry of conjugated instances, keyed by their proxy, target and constituent instances.
+ */
+const states = new WeakMap<object, IConjugateState>();
+
+/**
+ * Registry of conjugated classes, keyed by the composed class and its proxy.
+ */
+const compositions = new WeakMap<object, IComposition>();
+
+/**
+ * Cache versions of conjugated classes, keyed by the classes and prototypes they depend on.
+ */
+const dependents = new WeakMap<object, Set<IVersion>>();
+
+/**
+ * Own fields seen on constructed instances of constituent classes, keyed by the class.
+ */
+const fields = new WeakMap<object, Set<string | symbol>>();
+
+/**
+ * Constituent instances handed to the constructor of a conjugated instance being rebuilt.
+ */
+let restoring: unknown[] | undefined = undefined;
+
+/**
+ * Create the cache version of a conjugated class.
+ * @param targets - The classes and prototypes the cache depends on.
+ * @return The version, bumped whenever one of the targets is invalidated.
+ */
+function track(targets: readonly object[]): IVersion {
+    const version: IVersion = { value: 0 };
+    targets.forEach(target => {
+        const versions = dependents.get(target) ?? new Set<IVersion>();
+        dependents.set(target, versions.add(version));
+    });
+    return version;
+}
+
+/**
+ * Invalidate the caches of every conjugated class depending on a class or prototype.
+ * @param target - The class or prototype that changed.
+ */
+function invalidate(target: object): void {
+    dependents.get(target)?.forEach(version => version.value++);
+}
+
+/**
+ * Register the state of a conjugated instance under all objects it is reachable from.
+ * @param state - The state to register.
+ * @param keys - The objects to register the state under.
+ */
+function register(state: IConjugateState, keys: unknown[]): void {
+    keys.forEach(key => {
+        if (typeof key === 'object' && key !== null) {
+            states.set(key, state);
+        }
+    });
+}
+
+/**
+ * Remove objects no longer part of a conjugated instance from the registry.
+ * @param keys - The objects to remove.
+ */
+function unregister(keys: readonly object[]): void {
+    keys.forEach(key => states.delete(key));
+}
+
+/**
+ * Get the state of a conjugated instance.
+ * @param target - The conjugated instance, or one of its constituent instances.
+ * @return The state of the conjugated instance.
+ */
+function stateOf(target: unknown): IConjugateState {
+    const state = (typeof target === 'object' && target !== null) ? states.get(target) : undefined;
+    if (state === undefined) {
+        throw new TypeError('Target must be a conjugated instance.');
+    }
+    return state;
+}
+
+/**
+ * Get the composition of a conjugated class or one of its subclasses.
+ * @param target - The conjugated class, or a class extending it.
+ * @return The composition of the class.
+ */
+function compositionOf(target: Function): IComposition {
+    for (let o: object | null = target; o !== null; o = Reflect.getPrototypeOf(o)) {
+        const composition = compositions.get(o);
+        if (composition !== undefined) {
+            return composition;
+        }
+    }
+    throw new TypeError('Target must be a conjugated class.');
+}
+
+/**
+ * Build a conjugated instance around existing constituent instances,
+ * without running the constructors of subclasses nor those of the constituents given.
+ * @param target - The conjugated class, or a class extending it.
+ * @param instances - The constituent instances, in class order; missing ones are constructed without arguments.
+ * @return The conjugated instance, whose prototype is that of target.
+ */
+function rebuild(target: Function, instances: unknown[]): object {
+    compositionOf(target);
+    let Base: object | null = target;
+    while (Base !== null && !compositions.has(Base)) {
+        Base = Reflect.getPrototypeOf(Base);
+    }
+    restoring = instances;
+    try {
+        return Reflect.construct(Base as Function, [], target);
+    } finally {
+        restoring = undefined;
+    }
+}
+
+/**
+ * Record the own fields of a newly constructed constituent instance, so merged snapshots can be revived onto it.
+ * @param Cls - The constituent class.
+ * @param inst - The constituent instance.
+ */
+function record(Cls: object, inst: unknown): void {
+    if (typeof inst === 'object' && inst !== null) {
+        const keys = fields.get(Cls) ?? new Set<string | symbol>();
+        Reflect.ownKeys(inst).forEach(key => keys.add(key));
+        fields.set(Cls, keys);
+    }
+}
+
+/**
+ * Fields seen on constructed instances of a constituent class.
+ * @param Cls - The constituent class.
+ * @return The field keys, or undefined if no instance of the class was constructed yet.
+ */
+function fieldsOf(Cls: object): ReadonlySet<string | symbol> | undefined {
+    return fields.get(Cls);
+}
+
+/**
+ * Take the constituent instances handed over by rebuild, if the conjugated instance under construction is rebuilt.
+ * @return The constituent instances, or undefined for an ordinary construction.
+ */
+function handover(): unknown[] | undefined {
+    const instances = restoring;
+    restoring = undefined;
+    return instances;
+}
+
+export {
+    states,
+    compositions,
+    register,
+    unregister,
+    track,
+    invalidate,
+    stateOf,
+    compositionOf,
+    rebuild,
+    handover,
+    record,
+    fieldsOf,
+};
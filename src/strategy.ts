@@ -0,0 +1,118 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IClass, ILayer, IStrategy } from './typing.js';
+
+/**
+ * Prototype chain of a class, from its prototype up to and including Object.prototype.
+ * @param Cls - The class to walk.
+ * @return The prototypes of the class and its ancestors.
+ */
+function chainOf(Cls: IClass<unknown, any>): object[] {
+    const chain: object[] = [];
+    for (let o: object | null = Cls.prototype; o !== null; o = Reflect.getPrototypeOf(o)) {
+        chain.push(o);
+    }
+    return chain;
+}
+
+/**
+ * A class and the classes it extends, excluding Object and Function.prototype.
+ * @param Cls - The class to walk.
+ * @return The class, then its ancestors.
+ */
+function ancestorsOf(Cls: Function): Function[] {
+    const ancestors: Function[] = [];
+    for (let C: object | null = Cls; typeof C === 'function' && C !== Object && C !== Function.prototype;
+        C = Reflect.getPrototypeOf(C)) {
+        ancestors.push(C);
+    }
+    return ancestors;
+}
+
+/**
+ * C3 linearization of the prototype chains of classes, as used by Python for its MRO.
+ * @param Classes - The classes to linearize.
+ * @return The prototypes in resolution order.
+ */
+function c3(Classes: readonly IClass<unknown, any>[]): object[] {
+    const lists = [...Classes.map(chainOf), Classes.map(Cls => Cls.prototype as object)];
+    const result: object[] = [];
+    while (lists.some(list => list.length > 0)) {
+        // First head that does not appear in the tail of any list
+        const head = lists
+            .map(list => list[0])
+            .find(candidate => candidate !== undefined && lists.every(list => list.indexOf(candidate) <= 0));
+        if (head === undefined) {
+            throw new TypeError(
+                `Cannot create a consistent method resolution order for ${Classes.map(Cls => Cls.name).join(', ')}.`,
+            );
+        }
+        result.push(head);
+        lists.forEach(list => {
+            if (list[0] === head) {
+                list.shift();
+            }
+        });
+    }
+    return result;
+}
+
+/**
+ * Compute the lookup order across constituents for a resolution strategy.
+ * @param Classes - The constituent classes, in argument order.
+ * @param strategy - The resolution strategy.
+ * @return The layers to consult, in order, after self.
+ */
+function linearize(Classes: readonly IClass<unknown, any>[], strategy: IStrategy = 'default'): ILayer[] {
+    const forward = Classes.map((_, i) => i);
+    const backward = [...forward].reverse();
+
+    // Prototype chain of a class, without the ancestors it shares with a class consulted later: as in C3, shared
+    // ancestors (Object.prototype at least) come after every class deriving from them, yet are bound to the first
+    const chains = Classes.map(chainOf);
+    // Prototypes no single constituent stands for, which selections of a constituent do not narrow
+    const common = (target: object) => target === Object.prototype || chains.filter(c => c.includes(target)).length > 1;
+    const chain = (order: number[]) => (index: number): ILayer[] => {
+        const later = order.slice(order.indexOf(index) + 1);
+        return chains[index]
+            .filter(target => later.every(j => !chains[j].includes(target)))
+            .map(target => ({
+                kind: 'prototype',
+                index: order.find(j => chains[j].includes(target)) as number,
+                target,
+                common: common(target),
+            }));
+    };
+    const instance = (index: number): ILayer => ({ kind: 'instance', index });
+
+    switch (strategy) {
+        case 'default':
+            return [...backward.map(instance), ...forward.flatMap(chain(forward))];
+        case 'left-to-right':
+            return forward.flatMap(i => [instance(i), ...chain(forward)(i)]);
+        case 'right-to-left':
+            return backward.flatMap(i => [instance(i), ...chain(backward)(i)]);
+        case 'c3':
+            // Prototypes are bound to the first constituent deriving from them
+            return [
+                ...forward.map(instance),
+                ...c3(Classes).map((target): ILayer => ({
+                    kind: 'prototype',
+                    index: chains.findIndex(c => c.includes(target)),
+                    target,
+                    common: common(target),
+                })),
+            ];
+        default:
+            throw new TypeError(`Unknown resolution strategy: ${String(strategy)}.`);
+    }
+}
+
+export {
+    ancestorsOf,
+    chainOf,
+    linearize,
+};
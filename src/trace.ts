@@ -0,0 +1,90 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+*/
+
+import { IAttachment, IClass, IExplanation, ILayer, IPlan, ITraceSource } from './typing.js';
+import { ConjugateBase } from './base.js';
+import { chainOf } from './strategy.js';
+
+/**
+ * Sources that do not belong to a constituent, shared by every report.
+ */
+const sources = {
+    self: { kind: 'self' },
+    combination: { kind: 'combination' },
+    none: { kind: 'none' },
+} as const satisfies Record<string, ITraceSource>;
+
+/**
+ * Sources of constituent layers, created once per layer.
+ */
+const layerSources = new WeakMap<ILayer, ITraceSource>();
+
+/**
+ * Source reported for a layer of the lookup order.
+ * @param Classes - The constituent classes.
+ * @param layer - The layer.
+ * @return The source naming the constituent, and the prototype for prototype layers.
+ */
+function sourceOf(Classes: readonly IClass<unknown, any>[], layer: ILayer): ITraceSource {
+    let source = layerSources.get(layer);
+    if (source === undefined) {
+        source = (layer.kind === 'instance')
+            ? { kind: 'instance', index: layer.index, class: Classes[layer.index] }
+            : { kind: 'prototype', index: layer.index, class: Classes[layer.index], target: layer.target };
+        layerSources.set(layer, source);
+    }
+    return source;
+}
+
+/**
+ * Explain lookups on a conjugated instance, without running getters or constructing lazy constituents.
+ * @param Classes - The constituent classes.
+ * @param plan - The member resolution of the class.
+ * @param isSelf - Whether the conjugated instance, or a subclass prototype, defines a property.
+ * @param instances - The constituent instances.
+ * @param attachments - The constituents attached at runtime, consulted last.
+ * @return A function returning the lookup path of a property.
+ */
+function explainer(
+    Classes: readonly IClass<unknown, any>[],
+    plan: IPlan,
+    isSelf: (key: string | symbol) => boolean,
+    instances: readonly unknown[],
+    attachments: readonly IAttachment[],
+): (key: string | symbol) => IExplanation {
+    return key => {
+        const path: { source: ITraceSource; defines: boolean }[] = [{ source: sources.self, defines: isSelf(key) }];
+        if (plan.combinations.has(key)) {
+            path.push({ source: sources.combination, defines: true });
+        }
+        let found: ITraceSource | undefined = path.find(step => step.defines)?.source;
+        const visit = (owner: unknown, source: ITraceSource, held: string | symbol = key) => {
+            const defines = ConjugateBase.isObject(owner) && Object.prototype.hasOwnProperty.call(owner, held);
+            path.push({ source, defines });
+            // Setter-only accessors do not satisfy reads
+            const desc = defines ? Reflect.getOwnPropertyDescriptor(owner as object, held) : undefined;
+            if (found === undefined && desc !== undefined && !('get' in desc && desc.get === undefined)) {
+                found = source;
+            }
+        };
+        plan.layersFor(key).forEach(layer => visit(
+            (layer.kind === 'instance') ? instances[layer.index] : layer.target,
+            sourceOf(Classes, layer),
+            layer.key,
+        ));
+        attachments.forEach(({ class: Cls, instance }, index) => {
+            [instance, ...chainOf(Cls).filter(target => target !== Object.prototype)].forEach(
+                target => visit(target, { kind: 'attachment', index, class: Cls, target }),
+            );
+        });
+        return { key, path, source: found ?? sources.none };
+    };
+}
+
+export {
+    sources,
+    sourceOf,
+    explainer,
+};
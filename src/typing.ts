@@ -3,6 +3,8 @@
 ** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
 */
 
+import type { ConjugateBase } from './base.js';
+
 /**
  * Generic class constructor interface.
  * @template IType - The type of the instance created by the class.
@@ -15,18 +17,106 @@ interface IClass<
     new(...args: IArgs): IType;
 }
 
+/**
+ * Abstract class constructor, which only subclasses can instantiate.
+ * @template IType - The type of the instance created by the class.
+ * @template IArgs - The types of the constructor arguments.
+ */
+type IAbstractClass<
+    IType extends unknown,
+    IArgs extends unknown[] = never[]
+> = abstract new (...args: IArgs) => IType;
+
+/**
+ * Mixin factory: a function, usually an arrow function, returning a class that extends the given base class.
+ */
+type IFactory = (Base: IClass<object, any[]>) => IClass<unknown, any>;
+
+/**
+ * Input composed by Conjugate: a class (abstract ones included), a mixin factory or a plain trait object.
+ */
+type IMixin = IAbstractClass<unknown, any> | IFactory | object;
+
+/**
+ * Phantom key carrying the input and exposed members of a selection at type level.
+ */
+declare const ISelected: unique symbol;
+
+/**
+ * Composable input exposing a selection of the members of another, as returned by pick, omit and alias.
+ * @template M - The class, mixin factory, trait object or selection the members are selected from.
+ * @template I - The members exposed.
+ */
+interface ISelection<M extends unknown, I extends unknown> {
+    readonly [ISelected]: { readonly mixin: M; readonly exposed: I };
+}
+
+/**
+ * Class standing for a composable input; selections stand for a class of the members they expose.
+ * @template M - The class, mixin factory, trait object or selection.
+ */
+type IClassOf<M extends unknown> =
+    M extends ISelection<infer Inner, infer I> ? IClass<I, ConstructorParameters<IClassOf<Inner>>>
+    : M extends IAbstractClass<unknown, any> ? M
+    : M extends (Base: any) => infer C ? (C extends IClass<unknown, any> ? C : never)
+    : IClass<M, []>;
+
+/**
+ * Instance of the class standing for a composable input.
+ * @template M - The class, mixin factory, trait object or selection.
+ */
+type IInstanceOf<M extends unknown> = InstanceType<IClassOf<M>>;
+
+/**
+ * Members of an instance with some of them renamed.
+ * @template I - The type of the instance.
+ * @template A - The new name of each renamed member.
+ */
+type IAliased<I extends unknown, A extends { readonly [K in keyof I]?: string | symbol }> =
+    Omit<I, keyof A>
+    & { -readonly [K in keyof A as A[K] extends string | symbol ? A[K] : never]-?: K extends keyof I ? I[K] : never };
+
+/**
+ * Members a constituent exposes in the composed view, as selected by pick, omit and alias.
+ */
+interface IExposure {
+    /** Key the constituent holds an exposed member under, or undefined if it does not expose the member. */
+    readonly keyOf: (name: string | symbol) => string | symbol | undefined;
+    /** Name one of its keys is exposed under, or undefined if the constituent does not expose it. */
+    readonly nameOf: (key: string | symbol) => string | symbol | undefined;
+}
+
+/**
+ * Classes standing for a tuple of composable inputs.
+ * @template Mixins - The tuple of classes, mixin factories or trait objects.
+ */
+type IClasses<Mixins extends unknown[]> = {
+    [K in keyof Mixins]: IClassOf<Mixins[K]>
+};
+
+/**
+ * Keys shared by two types whose member in A is not assignable to the member in B.
+ * @template A - The first type.
+ * @template B - The second type.
+ */
+type IConflicts<A extends unknown, B extends unknown> =
+    { [K in keyof A & keyof B]: A[K] extends B[K] ? never : K }[keyof A & keyof B];
+
 /**
  * Merge two types, preferring properties from A over B.
  * @template A - The first type.
  * @template B - The second type.
  */
 type IMix<A extends unknown, B extends unknown> =
-    // Properties: Prefer A, else B, else never
-    { [K in keyof (A & B)]: (K extends keyof A
-        ? A[K]
-        : (K extends keyof B
-            ? B[K]
-            : never)) }
+    // Properties: Compatible types are intersected, so methods remain methods for subclasses to override
+    ([IConflicts<A, B>] extends [never]
+        ? A & B
+        // Otherwise prefer A, else B, else never
+        : { [K in keyof (A & B)]: (K extends keyof A
+            ? A[K]
+            : (K extends keyof B
+                ? B[K]
+                : never)) })
     // Call signature: prefer A, else B, else none
     & (A extends (...args: infer P) => infer R
         ? (...args: P) => R
@@ -46,7 +136,7 @@ type IMix<A extends unknown, B extends unknown> =
  */
 type IResolve<CTypes extends unknown[]> =
     CTypes extends [infer CBase, ...infer CRest] ? (
-        CBase extends IClass<infer Base> ? (
+        CBase extends IAbstractClass<infer Base> ? (
             CRest extends [infer _CSecond, ...infer _CRest] ? (
                 IMix<Base, IResolve<CRest>>
             ) : Base
@@ -54,9 +144,683 @@ type IResolve<CTypes extends unknown[]> =
     ) : null;
 
 /**
- * Interface for the conjugated type, for future extensibility.
+ * Reverse a tuple type.
+ * @template T - The tuple to reverse.
+ */
+type IReverse<T extends unknown[]> =
+    T extends [infer THead, ...infer TRest] ? [...IReverse<TRest>, THead] : [];
+
+/**
+ * Constructor parameters of a class.
+ * @template C - The class type.
+ */
+type IParams<C extends unknown> = C extends abstract new (...args: infer P) => unknown ? P : never;
+
+/**
+ * Constructor arguments of a constituent: a tuple, or a function receiving the instances of its dependencies.
+ * @template C - The class type.
+ */
+type IArgument<C extends unknown> = IParams<C> | ((...dependencies: any[]) => IParams<C>);
+
+/**
+ * Constructor argument tuples for a tuple of classes, all required.
+ * @template CTypes - The tuple of classes.
+ */
+type IRequiredArgs<CTypes extends unknown[]> = {
+    [K in keyof CTypes]: IArgument<CTypes[K]>
+};
+
+/**
+ * Constructor argument tuples for a tuple of classes.
+ * Trailing tuples are optional for classes whose constructors take no required parameters.
+ * @template CTypes - The tuple of classes.
+ */
+type IConstructorArgs<CTypes extends unknown[]> =
+    CTypes extends [...infer CInit, infer CLast] ? (
+        [] extends IParams<CLast>
+            ? [...IConstructorArgs<CInit>, IArgument<CLast>?]
+            : [...IRequiredArgs<CInit>, IArgument<CLast>]
+    ) : IRequiredArgs<CTypes>;
+
+/**
+ * Constructor arguments keyed by constituent name.
+ * Keys are optional for classes whose constructors take no required parameters.
+ * @template CTypes - The tuple of classes.
+ * @template N - The tuple of constituent names.
+ */
+type INamedArgs<CTypes extends unknown[], N extends readonly string[]> = {
+    [I in keyof N & `${number}` as [] extends IParams<CTypes[I & keyof CTypes]> ? never : N[I]]:
+        IArgument<CTypes[I & keyof CTypes]>
+} & {
+    [I in keyof N & `${number}` as [] extends IParams<CTypes[I & keyof CTypes]> ? N[I] : never]?:
+        IArgument<CTypes[I & keyof CTypes]>
+};
+
+/**
+ * Static side of a class, without its construct signature and prototype.
+ * @template C - The class type.
+ */
+type IStatic<C extends unknown> = {
+    [K in keyof C as K extends 'prototype' ? never : K]: C[K]
+};
+
+/**
+ * Recursively resolve the combined static type for a tuple of classes.
+ * @template CTypes - The tuple of classes.
+ */
+type IResolveStatic<CTypes extends unknown[]> =
+    CTypes extends [infer CBase, ...infer CRest] ? (
+        CRest extends [infer _CSecond, ...infer _CRest] ? (
+            IMix<IStatic<CBase>, IResolveStatic<CRest>>
+        ) : IStatic<CBase>
+    ) : unknown;
+
+/**
+ * Resolution strategy deciding the lookup order across constituents.
+ * - `default`: own properties of the last instance win, then prototypes from left to right.
+ * - `left-to-right`: each class (instance, then prototype chain) from left to right.
+ * - `right-to-left`: each class (instance, then prototype chain) from right to left; last wins.
+ * - `c3`: instances from left to right, then prototypes in C3 linearization order.
+ */
+type IStrategy = 'default' | 'left-to-right' | 'right-to-left' | 'c3';
+
+/**
+ * Reference to a constituent: its class, its index, or its name.
+ */
+type IConstituentRef = IClass<unknown, any> | number | string;
+
+/**
+ * Explicit resolution of a member: the constituent class providing it, or `all` to call every implementation.
+ */
+type IResolution = IClass<unknown, any> | 'all';
+
+/**
+ * Advice wrapping the primary implementation of a member with the same-named members of other constituents.
+ */
+interface IAdvice {
+    /** Constituent providing the primary implementation; the first other constituent defining it when omitted. */
+    readonly primary?: IClass<unknown, any>;
+    /** Constituents whose member runs before the primary implementation, with the same arguments. */
+    readonly before?: readonly IClass<unknown, any>[];
+    /** Constituents whose member runs after the primary implementation, with the same arguments. */
+    readonly after?: readonly IClass<unknown, any>[];
+    /** Constituents whose member wraps the primary implementation, receiving `proceed` as first argument. */
+    readonly around?: readonly IClass<unknown, any>[];
+}
+
+/**
+ * Method combination of a member across constituents, calling implementations in class order.
+ * - `sequence`: call every implementation, returning nothing.
+ * - `collect`: call every implementation, returning their results.
+ * - `pipe`: pass the result of each implementation to the next, returning the last result.
+ * - `any` / `all`: call implementations until one result is truthy / falsy, returning a boolean.
+ * - advice: wrap the primary implementation with before, after and around advice.
+ * Asynchronous results are awaited before the next implementation is called.
+ */
+type ICombination = 'sequence' | 'collect' | 'pipe' | 'any' | 'all' | IAdvice;
+
+/**
+ * Options for a conjugated class.
+ */
+interface IConjugateOptions {
+    /** Resolution strategy, `default` when omitted. */
+    readonly strategy?: IStrategy;
+    /** Reject members defined by more than one constituent, unless resolved explicitly. */
+    readonly strict?: boolean;
+    /** Explicit resolution per member, overriding the resolution strategy. */
+    readonly resolve?: { readonly [key: string | symbol]: IResolution };
+    /** Method combination per member, calling the implementations of several constituents. */
+    readonly combine?: { readonly [key: string | symbol]: ICombination };
+    /** Run constituent methods with the conjugated instance as `this`, so constituents share state. */
+    readonly unified?: boolean;
+    /** Build a plain class with members copied once, without a proxy and without tracking prototype changes. */
+    readonly flat?: boolean;
+    /** Names of the constituents, in class order, to pass constructor arguments by name. */
+    readonly names?: readonly string[];
+    /** Constituents each constituent depends on, constructed first and passed to its argument function. */
+    readonly dependencies?: { readonly [constituent: string | number]: readonly IConstituentRef[] };
+    /** Constituents constructed on the first use of their class, rather than with the conjugated instance. */
+    readonly lazy?: readonly IConstituentRef[];
+    /** Callback receiving every property access on conjugated instances, and where it was resolved. */
+    readonly trace?: (event: ITrace) => void;
+    /** Shape of snapshots taken by toJSON: all state merged, or grouped by constituent. `merged` when omitted. */
+    readonly json?: ISnapshotMode;
+    /** Order in which `create` awaits the initializers of constituents. `sequence` when omitted. */
+    readonly init?: IInitMode;
+    /** Report changes made through conjugated instances to their subscribers. */
+    readonly observable?: boolean;
+}
+
+/**
+ * Shape of a snapshot of a conjugated instance:
+ * - `merged`: own properties of the composed view, as a single object.
+ * - `constituents`: own properties grouped by the constituent they resolve to, under `this` for the instance itself.
+ */
+type ISnapshotMode = 'merged' | 'constituents';
+
+/**
+ * Order in which the initializers of constituents are awaited:
+ * - `sequence`: one at a time, in construction order, stopping at the first failure.
+ * - `concurrent`: all at once, waiting for every one to settle.
+ */
+type IInitMode = 'sequence' | 'concurrent';
+
+/**
+ * Place a property access on a conjugated instance is resolved at:
+ * - `self`: the conjugated instance itself, or the prototype of a subclass.
+ * - `combination`: a member combined across constituents.
+ * - `instance`: own property of a constituent instance.
+ * - `prototype`: a prototype in the chain of a constituent class.
+ * - `attachment`: a constituent attached at runtime, i.e. its instance or a prototype in the chain of its class.
+ * - `none`: no member; assignments then define an own property.
+ */
+type ITraceSource =
+    | { readonly kind: 'self' | 'combination' | 'none' }
+    | { readonly kind: 'instance'; readonly index: number; readonly class: IClass<unknown, any> }
+    | {
+        readonly kind: 'prototype' | 'attachment';
+        readonly index: number;
+        readonly class: IClass<unknown, any>;
+        readonly target: object;
+    };
+
+/**
+ * Property access on a conjugated instance, as reported to the trace callback.
+ */
+interface ITrace {
+    /** The operation. */
+    readonly op: OpType.Has | OpType.Get | OpType.Set;
+    /** The property key. */
+    readonly key: string | symbol;
+    /** Where the access was resolved. */
+    readonly source: ITraceSource;
+}
+
+/**
+ * Change made through an observable conjugated instance, for each of its keys.
+ * @template T - The type of the instance.
+ */
+type IChange<T extends object = Record<string | symbol, unknown>> = {
+    [K in keyof T & (string | symbol)]-?: {
+        /** The operation: an assignment, a definition or a deletion. */
+        readonly op: OpType.Set | OpType.Define | OpType.Delete;
+        /** The property key. */
+        readonly key: K;
+        /** The value read through the instance before the change. */
+        readonly oldValue: T[K] | undefined;
+        /** The value read through the instance after the change. */
+        readonly newValue: T[K] | undefined;
+        /** The constituent class owning the property, or undefined for the instance itself. */
+        readonly class: IClass<unknown, any> | undefined;
+    };
+}[keyof T & (string | symbol)];
+
+/**
+ * Subscriber to the changes of an observable conjugated instance, receiving them in the order they were made:
+ * one at a time, or all changes of a batch at once.
+ * @template T - The type of the instance.
+ */
+type IListener<T extends object = Record<string | symbol, unknown>> = (changes: readonly IChange<T>[]) => void;
+
+/**
+ * Subscribers of an observable conjugated instance, and the changes of the batch in progress.
+ */
+interface IObserver {
+    /** The subscribers, in subscription order. */
+    readonly listeners: Set<IListener>;
+    /** Report a change, now or at the end of the batch in progress. */
+    notify(change: IChange): void;
+    /** Run a function, reporting the changes it makes at once when it returns. */
+    batch<R>(fn: () => R): R;
+}
+
+/**
+ * Lookup path of a property on a conjugated instance.
+ */
+interface IExplanation {
+    /** The property key. */
+    readonly key: string | symbol;
+    /** Every place consulted, in lookup order, and whether it defines the property. */
+    readonly path: readonly { readonly source: ITraceSource; readonly defines: boolean }[];
+    /** Where reading the property is resolved. */
+    readonly source: ITraceSource;
+}
+
+/**
+ * Instance types for a tuple of classes.
+ * @template CTypes - The tuple of classes.
+ */
+type IInstances<CTypes extends unknown[]> = {
+    [K in keyof CTypes]: CTypes[K] extends abstract new (...args: any) => infer T ? T : never
+};
+
+/**
+ * Keys shared by two types whose members are not assignable to each other in either direction.
+ * @template A - The first type.
+ * @template B - The second type.
+ */
+type IIncompatible<A extends unknown, B extends unknown> = {
+    [K in keyof A & keyof B]: A[K] extends B[K] ? never : (B[K] extends A[K] ? never : K)
+}[keyof A & keyof B];
+
+/**
+ * Keys with incompatible members between any two of a tuple of types.
+ * @template ITypes - The tuple of types.
  */
-interface IConjugateBase { }
+type IOverlaps<ITypes extends unknown[]> =
+    ITypes extends [infer IHead, ...infer IRest] ? (
+        { [K in keyof IRest]: IIncompatible<IHead, IRest[K]> }[number] | IOverlaps<IRest>
+    ) : never;
+
+/**
+ * Incompatible members not resolved or combined explicitly by the options.
+ * @template CTypes - The tuple of classes.
+ * @template O - The options of the conjugated class.
+ */
+type IUnresolved<CTypes extends unknown[], O extends IConjugateOptions> =
+    Exclude<IOverlaps<IInstances<CTypes>>, keyof NonNullable<O['resolve']> | keyof NonNullable<O['combine']>>;
+
+/**
+ * Members a class requires from the rest of a composition, as listed under `ConjugateBase.requires`.
+ * @template C - The class type.
+ */
+type IRequired<C extends unknown> =
+    C extends Readonly<Record<typeof ConjugateBase.requires, readonly (infer K)[]>> ? K : never;
+
+/**
+ * Members required by a constituent that no other constituent provides.
+ * @template CTypes - The tuple of classes.
+ */
+type IMissing<CTypes extends unknown[]> = {
+    [I in keyof CTypes]: Exclude<IRequired<CTypes[I]>, {
+        [J in keyof CTypes]: J extends I
+            ? never
+            : (CTypes[J] extends abstract new (...args: any) => infer T ? keyof T : never)
+    }[number]>
+}[number];
+
+/**
+ * Compile-time check of strict mode: unknown when valid, else a type naming the conflicting members.
+ * @template CTypes - The tuple of classes.
+ * @template O - The options of the conjugated class.
+ */
+type IStrictCheck<CTypes extends unknown[], O extends IConjugateOptions> =
+    O['strict'] extends true ? (
+        [IUnresolved<CTypes, O>] extends [never]
+            ? unknown
+            : { readonly conflictingMembers: IUnresolved<CTypes, O> }
+    ) : unknown;
+
+/**
+ * Types of a member across a tuple of types, skipping types without it.
+ * @template ITypes - The tuple of types.
+ * @template K - The member key.
+ */
+type IMembers<ITypes extends unknown[], K extends PropertyKey> =
+    ITypes extends [infer IHead, ...infer IRest] ? (
+        K extends keyof IHead ? [IHead[K], ...IMembers<IRest, K>] : IMembers<IRest, K>
+    ) : [];
+
+/**
+ * Function calling every implementation of a member, returning their results in class order.
+ * @template M - The tuple of member types.
+ */
+type ICallAll<M extends unknown[]> =
+    M extends [(...args: infer P) => unknown, ...unknown[]]
+        ? (...args: P) => IReturns<M>
+        : M;
+
+/**
+ * Return types of a tuple of member types; values are returned as-is.
+ * @template M - The tuple of member types.
+ */
+type IReturns<M extends unknown[]> = {
+    [I in keyof M]: M[I] extends (...args: any) => infer R ? R : M[I]
+};
+
+/**
+ * Result of a combination, as a promise when any implementation is asynchronous.
+ * @template M - The tuple of member types.
+ * @template T - The type of the result.
+ */
+type IMaybeAsync<M extends unknown[], T extends unknown> =
+    [Extract<IReturns<M>[number], PromiseLike<unknown>>] extends [never] ? T : Promise<T>;
+
+/**
+ * Last element of a tuple type.
+ * @template T - The tuple.
+ */
+type ILast<T extends unknown[]> = T extends [...unknown[], infer L] ? L : undefined;
+
+/**
+ * Whether a tuple of types contains a type.
+ * @template T - The tuple of types.
+ * @template U - The type to look for.
+ */
+type IIncludes<T extends readonly unknown[], U extends unknown> =
+    T extends readonly [infer THead, ...infer TRest]
+        ? (IEquals<THead, U> extends true ? true : IIncludes<TRest, U>)
+        : false;
+
+/**
+ * Member of the first class not giving advice, which provides the primary implementation.
+ * @template CTypes - The tuple of classes.
+ * @template A - The tuple of advising classes.
+ * @template K - The member key.
+ */
+type IPrimary<CTypes extends unknown[], A extends readonly unknown[], K extends PropertyKey> =
+    CTypes extends [infer CBase, ...infer CRest] ? (
+        IIncludes<A, CBase> extends true ? IPrimary<CRest, A, K> : (
+            CBase extends abstract new (...args: any) => infer T
+                ? (K extends keyof T ? T[K] : IPrimary<CRest, A, K>)
+                : never
+        )
+    ) : never;
+
+/**
+ * Member type combined across constituents.
+ * @template CTypes - The tuple of classes.
+ * @template C - The method combination.
+ * @template K - The member key.
+ */
+type ICombined<CTypes extends unknown[], C extends unknown, K extends PropertyKey> =
+    IMembers<IInstances<CTypes>, K> extends infer M extends unknown[] ? (
+        M extends [(...args: infer P) => unknown, ...unknown[]] ? (
+            C extends 'sequence' ? (...args: P) => IMaybeAsync<M, void>
+            : C extends 'collect' ? (...args: P) => IMaybeAsync<M, { [I in keyof M]: Awaited<IReturns<M>[I]> }>
+            : C extends 'pipe' ? (...args: P) => IMaybeAsync<M, Awaited<ILast<IReturns<M>>>>
+            : C extends 'any' | 'all' ? (...args: P) => IMaybeAsync<M, boolean>
+            : C extends { readonly primary: abstract new (...args: any) => infer T }
+                ? (K extends keyof T ? T[K] : never)
+            : IPrimary<CTypes, [
+                ...(C extends { readonly before: infer B extends readonly unknown[] } ? B : []),
+                ...(C extends { readonly after: infer B extends readonly unknown[] } ? B : []),
+                ...(C extends { readonly around: infer B extends readonly unknown[] } ? B : []),
+            ], K>
+        ) : never
+    ) : never;
+
+/**
+ * Apply the method combinations of the options to a resolved instance type.
+ * @template I - The resolved instance type.
+ * @template CTypes - The tuple of classes.
+ * @template O - The options of the conjugated class.
+ */
+type IApplyCombine<I extends unknown, CTypes extends unknown[], O extends IConjugateOptions> =
+    O extends { readonly combine: infer B extends object }
+        ? Omit<I, keyof B> & { [K in keyof B]: ICombined<CTypes, B[K], K> }
+        : I;
+
+/**
+ * Apply the explicit member resolutions of the options to a resolved instance type.
+ * @template I - The resolved instance type.
+ * @template CTypes - The tuple of classes.
+ * @template O - The options of the conjugated class.
+ */
+type IApplyResolve<I extends unknown, CTypes extends unknown[], O extends IConjugateOptions> =
+    O extends { readonly resolve: infer R extends object } ? (
+        Omit<I, keyof R> & {
+            [K in keyof R]: R[K] extends 'all'
+                ? ICallAll<IMembers<IInstances<CTypes>, K>>
+                : (R[K] extends abstract new (...args: any) => infer T ? (K extends keyof T ? T[K] : never) : never)
+        }
+    ) : I;
+
+/**
+ * Tuple of classes in the order their members are preferred under the given options.
+ * @template CTypes - The tuple of classes.
+ * @template O - The options of the conjugated class.
+ */
+type IPreferred<CTypes extends unknown[], O extends IConjugateOptions> =
+    O['strategy'] extends 'right-to-left' ? IReverse<CTypes> : CTypes;
+
+/**
+ * Class returned by Conjugate, for a tuple of classes and options.
+ * @template CTypes - The tuple of classes.
+ * @template O - The options of the conjugated class.
+ */
+type IConjugateClass<CTypes extends unknown[], O extends IConjugateOptions = {}> =
+    ([IMissing<CTypes>] extends [never] ? (
+        IClass<IConjugateInstance<CTypes, O>, IConstructorArgs<CTypes>>
+        & (O extends { readonly names: infer N extends readonly string[] }
+            ? IClass<IConjugateInstance<CTypes, O>, [args: INamedArgs<CTypes, N>]>
+            : unknown)
+    ) : (
+        // Abstract until a subclass provides the members required by constituents
+        IAbstractClass<IConjugateInstance<CTypes, O>, IConstructorArgs<CTypes>>
+        & (O extends { readonly names: infer N extends readonly string[] }
+            ? IAbstractClass<IConjugateInstance<CTypes, O>, [args: INamedArgs<CTypes, N>]>
+            : unknown)
+    ))
+    & IResolveStatic<IPreferred<CTypes, O>>
+    & Omit<IConjugateStatics, keyof IResolveStatic<IPreferred<CTypes, O>>>;
+
+/**
+ * Statics every conjugated class inherits from ConjugateBase, typed for the class they are called on.
+ * A constituent static of the same name is resolved first, like any static.
+ */
+interface IConjugateStatics {
+    /** Rebuild an instance from a snapshot, without running the constructors of its constituents. */
+    revive<T>(this: abstract new (...args: any) => T, data: unknown): T;
+    /** Rebuild an instance from the JSON text of a snapshot, without running the constructors of its constituents. */
+    fromJSON<T>(this: abstract new (...args: any) => T, json: string): T;
+    /** Construct an instance, then await the initializer of every constituent. */
+    create<T, A extends unknown[]>(this: new (...args: A) => T, ...args: A): Promise<T>;
+}
+
+/**
+ * Instance of a class returned by Conjugate, for a tuple of classes and options.
+ * @template CTypes - The tuple of classes.
+ * @template O - The options of the conjugated class.
+ */
+type IConjugateInstance<CTypes extends unknown[], O extends IConjugateOptions> =
+    IApplyCombine<IApplyResolve<IResolve<IPreferred<CTypes, O>>, CTypes, O>, CTypes, O>
+    & IConjugated<CTypes, IPreferred<CTypes, O>>
+    & IConjugateBase;
+
+/**
+ * Members a class decorated with @conjugate gains from its mixins, to declare by interface merging:
+ * `interface Derived extends IDecorated<[typeof Mixin]> { }`.
+ * @template M - The tuple of classes, mixin factories or trait objects given to @conjugate.
+ * @template O - The options given to @conjugate.with.
+ */
+type IDecorated<M extends unknown[], O extends IConjugateOptions = {}> = IConjugateInstance<IClasses<M>, O>;
+
+/**
+ * Class decorator returned by @conjugate, keeping the type of the decorated class.
+ * @template T - The type of the decorated class.
+ */
+type IClassDecorator =
+    <T extends abstract new (...args: any) => object>(Target: T, context: ClassDecoratorContext<T>) => T;
+
+/**
+ * Step of the lookup order: own properties of a constituent instance, or own properties of a prototype.
+ * Prototype layers also name the constituent instance their methods are bound to.
+ */
+type ILayer = (
+    | { readonly kind: 'instance'; readonly index: number }
+    | {
+        readonly kind: 'prototype';
+        readonly index: number;
+        readonly target: object;
+        /** Whether the prototype is Object.prototype or an ancestor of several constituents, exposed in full. */
+        readonly common: boolean;
+    }
+) & {
+    /** Key the member is held under on this layer, when its constituent exposes it under another name. */
+    readonly key?: string | symbol;
+};
+
+/**
+ * Strict type equality check.
+ * @template X - The first type.
+ * @template Y - The second type.
+ */
+type IEquals<X, Y> =
+    (<T>() => T extends X ? 1 : 2) extends (<T>() => T extends Y ? 1 : 2) ? true : false;
+
+/**
+ * Tuple of classes following a given class in a tuple of classes.
+ * @template CTypes - The tuple of classes.
+ * @template M - The class to look for.
+ */
+type INext<CTypes extends unknown[], M extends unknown> =
+    CTypes extends [infer CBase, ...infer CRest] ? (
+        IEquals<CBase, M> extends true ? CRest : INext<CRest, M>
+    ) : [];
+
+/**
+ * Resolved view of the classes following a given class, in lookup order, or an empty view when there are none.
+ * @template CTypes - The tuple of classes, in the order their members are preferred.
+ * @template M - The class to look for.
+ */
+type ISuper<CTypes extends unknown[], M extends unknown> =
+    INext<CTypes, M> extends [unknown, ...unknown[]]
+        ? IResolve<INext<CTypes, M>> & IConjugated<CTypes>
+        : {};
+
+/**
+ * Phantom key carrying the constituent classes of a conjugated instance at type level.
+ */
+declare const IConstituents: unique symbol;
+
+/**
+ * Phantom key carrying the constituent classes of a conjugated instance in the order their members are preferred.
+ */
+declare const IPreferredOrder: unique symbol;
+
+/**
+ * Type-level brand for conjugated instances, recording their constituent classes.
+ * Brands written by hand, e.g. for `this`, assume members are preferred in argument order.
+ * @template CTypes - The tuple of classes.
+ * @template PTypes - The tuple of classes in the order their members are preferred.
+ */
+interface IConjugated<CTypes extends unknown[], PTypes extends unknown[] = CTypes> {
+    readonly [IConstituents]?: CTypes;
+    readonly [IPreferredOrder]?: PTypes;
+}
+
+/**
+ * Members every conjugated instance takes from ConjugateBase.
+ */
+interface IConjugateBase {
+    /** Dispose of every constituent instance, in reverse construction order. */
+    [Symbol.dispose](): void;
+    /** Dispose of every constituent instance asynchronously, one at a time, in reverse construction order. */
+    [Symbol.asyncDispose](): Promise<void>;
+    /** Await the initializer of every constituent instance, disposing of them if one fails. */
+    [ConjugateBase.init](): Promise<void>;
+}
+
+/**
+ * Runtime bookkeeping of a conjugated class.
+ */
+interface IComposition {
+    /** Name of the conjugated class, listing its constituents. */
+    readonly name: string;
+    /** Classes the instance is composed of, in argument order. */
+    readonly classes: readonly IClass<unknown, any>[];
+    /** Lookup order across constituents, after self. */
+    readonly layers: readonly ILayer[];
+    /** Options the class was composed with. */
+    readonly options: IConjugateOptions;
+    /** Whether the methods of each constituent run against the conjugated instance, rather than their own. */
+    readonly shared: readonly boolean[];
+    /** Whether each constituent class depends on the identity of its instances, e.g. through private members. */
+    readonly branded: readonly boolean[];
+    /** Members each constituent exposes, when selected by pick, omit or alias. */
+    readonly exposures: readonly (IExposure | undefined)[];
+}
+
+/**
+ * Member resolution of a conjugated class, prepared at composition time.
+ */
+interface IPlan {
+    /** Indices of the constituent instances, in lookup order. */
+    readonly owners: readonly number[];
+    /**
+     * Lookup order of a member, narrowed to one constituent when resolved explicitly,
+     * and to the constituents exposing it otherwise.
+     */
+    readonly layersFor: (prop: string | symbol) => readonly ILayer[];
+    /** Key a constituent holds a member of the composed view under, or undefined if it does not expose it. */
+    readonly keyOf: (index: number, name: string | symbol) => string | symbol | undefined;
+    /** Name a key of a constituent is exposed under in the composed view, or undefined if it is not exposed. */
+    readonly nameOf: (index: number, key: string | symbol) => string | symbol | undefined;
+    /** Members combined across constituents, built from the constituent instances and their receivers. */
+    readonly combinations: ReadonlyMap<
+        string | symbol,
+        (instances: readonly unknown[], receivers: readonly unknown[]) => unknown
+    >;
+    /** Members constituents require from the rest of the composition. */
+    readonly required: ReadonlySet<string | symbol>;
+    /** Validation that the members constituents require are provided, as told by the given check. */
+    readonly verify: (provides: (key: string | symbol) => boolean) => void;
+    /**
+     * Construct, and validate, the constituents of a new conjugated instance, except lazy ones.
+     * Dependencies of a constituent are constructed before it.
+     * @param args - Positional or named constructor arguments.
+     * @param built - Called when a lazy constituent is constructed later on.
+     */
+    readonly instantiate: (args: readonly unknown[], built: (index: number) => void) => IConstituents;
+}
+
+/**
+ * Constituent instances of a conjugated instance; lazy ones are undefined until constructed.
+ */
+interface IConstituents {
+    /** Constituent instances, one per class, which the conjugated instance may replace by proxies observing them. */
+    readonly instances: unknown[];
+    /** Get the constituent instance at an index, constructing it first if needed. */
+    readonly build: (index: number) => unknown;
+    /** Indices of the constituents constructed so far, in construction order. */
+    readonly constructed: ReadonlySet<number>;
+}
+
+/**
+ * Version of the resolution cache of a conjugated class, bumped when the classes it depends on are invalidated.
+ */
+interface IVersion {
+    value: number;
+}
+
+/**
+ * Constituent attached to a conjugated instance at runtime.
+ */
+interface IAttachment {
+    /** Class of the constituent. */
+    readonly class: IClass<unknown, any>;
+    /** The constituent instance. */
+    readonly instance: object;
+    /** Whether its methods run against the conjugated instance, rather than its own. */
+    readonly shared: boolean;
+}
+
+/**
+ * Conjugated instance with a constituent attached at runtime, also typed with the members of the constituent.
+ * Attached constituents are consulted last, so they add members without changing existing ones.
+ * @template T - The type of the conjugated instance.
+ * @template I - The type of the attached instance.
+ */
+type IAttached<T extends object, I extends unknown> = T & Omit<I, keyof T>;
+
+/**
+ * Runtime bookkeeping of a conjugated instance.
+ */
+interface IConjugateState extends IComposition, IConstituents {
+    /** Proxy exposing the composed view of the instance. */
+    readonly proxy: object;
+    /** Lookup path of a property, computed without side effects. */
+    readonly explain: (key: string | symbol) => IExplanation;
+    /** Constituents attached at runtime, in attach order. */
+    readonly attachments: readonly IAttachment[];
+    /** Attach a constituent, consulted after every other one. */
+    readonly attach: (Cls: IClass<unknown, any>, instance: object) => void;
+    /** Detach a constituent attached at runtime. */
+    readonly detach: (attachment: IAttachment) => void;
+    /** Subscribers to changes, when the class is observable. */
+    readonly observer: IObserver | undefined;
+}
 
 /**
  * Enum for property operation types in proxy traps.
@@ -65,12 +829,81 @@ const enum OpType {
     Has = 'has',
     Get = 'get',
     Set = 'set',
+    Define = 'define',
+    Delete = 'delete',
 }
 
 export {
     IClass,
+    IAbstractClass,
+    IFactory,
+    IMixin,
+    IClassOf,
+    ISelection,
+    IInstanceOf,
+    IAliased,
+    IExposure,
+    IClasses,
+    IConflicts,
     IMix,
     IResolve,
+    IReverse,
+    IParams,
+    IArgument,
+    IRequiredArgs,
+    IConstructorArgs,
+    INamedArgs,
+    IStatic,
+    IResolveStatic,
+    IStrategy,
+    IConstituentRef,
+    IResolution,
+    IAdvice,
+    ICombination,
+    IConjugateOptions,
+    ITraceSource,
+    ITrace,
+    IChange,
+    IListener,
+    IObserver,
+    IExplanation,
+    IInstances,
+    IIncompatible,
+    IOverlaps,
+    IUnresolved,
+    IRequired,
+    IMissing,
+    IStrictCheck,
+    IMembers,
+    ICallAll,
+    IReturns,
+    IMaybeAsync,
+    ILast,
+    IIncludes,
+    IPrimary,
+    ICombined,
+    IApplyCombine,
+    IApplyResolve,
+    IPreferred,
+    IConjugateClass,
+    IConjugateInstance,
+    IDecorated,
+    IClassDecorator,
+    ILayer,
+    IEquals,
+    INext,
+    ISuper,
+    IConjugated,
     IConjugateBase,
+    IConjugateStatics,
+    ISnapshotMode,
+    IInitMode,
+    IComposition,
+    IPlan,
+    IConstituents,
+    IAttachment,
+    IAttached,
+    IVersion,
+    IConjugateState,
     OpType,
 };
@@ -0,0 +1,81 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Accessor Assignment Tests
+** - Validates setters on constituent prototypes are invoked against their own instance
+** - Validates get/set accessor pairs split across classes
+** - Validates read-only accessors reject assignment
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C } from '../src/conjugate.js';
+
+describe('Accessor Assignment', () => {
+    test('Setter on a mixin prototype is invoked on the mixin instance', () => {
+        class Base { base = 'base'; }
+        class Mixin {
+            _celsius = 0;
+            get fahrenheit() { return this._celsius * 9 / 5 + 32; }
+            set fahrenheit(value: number) { this._celsius = (value - 32) * 5 / 9; }
+        }
+
+        const A = C(Base, Mixin);
+        const instance = new A([], []);
+        instance.fahrenheit = 212;
+        expect(instance._celsius).toBe(100);
+        expect(instance.fahrenheit).toBe(212);
+        expect(Object.keys(instance)).not.toContain('fahrenheit');
+
+        // Setter keeps being honoured after repeated assignments
+        instance.fahrenheit = 32;
+        expect(instance._celsius).toBe(0);
+    });
+
+    test('Accessor pairs split across classes', () => {
+        class Reader {
+            declare _value?: string;
+            get value(): string { return `read:${this._value}`; }
+        }
+        class Writer {
+            _value?: string;
+            set value(value: string) { this._value = value; }
+        }
+
+        const A = C(Reader, Writer);
+        const instance = new A([], []);
+        instance.value = 'written';
+        expect(instance._value).toBe('written');
+        // Getter runs against the composed view, seeing the writer's field
+        expect(instance.value).toBe('read:written');
+
+        const B = C(Writer, Reader);
+        const reversed = new B([], []);
+        reversed.value = 'again';
+        expect(reversed.value).toBe('read:again');
+    });
+
+    test('Read-only accessors reject assignment', () => {
+        class Base { get id() { return 'fixed'; } }
+        class Mixin { other = 1; }
+
+        const A = C(Base, Mixin);
+        const instance = new A([], []);
+        expect(() => { (instance as { id: string }).id = 'changed'; }).toThrow(TypeError);
+        expect(instance.id).toBe('fixed');
+        expect(Object.keys(instance)).not.toContain('id');
+    });
+
+    test('Data properties on prototypes are shadowed by assignment', () => {
+        class Base { }
+        (Base.prototype as any).shared = 'proto';
+        class Mixin { }
+
+        const A = C(Base, Mixin);
+        const instance: any = new A([], []);
+        instance.shared = 'own';
+        expect(instance.shared).toBe('own');
+        expect((Base.prototype as any).shared).toBe('proto');
+    });
+});
@@ -0,0 +1,66 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Constructor Argument Tests
+** - Validates trailing argument tuples can be omitted for constructors without required parameters
+** - Validates constructor arguments passed by constituent name
+** - Validates invalid names and arguments are rejected
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C } from '../src/conjugate.js';
+
+class Base { constructor(public value: number) { } }
+class Logger { constructor(public level: string = 'info') { } }
+class Plain { plain = true; }
+
+describe('Constructor Arguments', () => {
+    test('Trailing tuples can be omitted', () => {
+        const A = C(Base, Logger, Plain);
+        const instance = new A([42]);
+        expect(instance.value).toBe(42);
+        expect(instance.level).toBe('info');
+        expect(instance.plain).toBe(true);
+        expect(new A([1], ['debug']).level).toBe('debug');
+
+        const B = C(Plain, Base);
+        // @ts-expect-error tuples of constructors with required parameters cannot be omitted
+        expect(new B().value).toBeUndefined();
+    });
+
+    test('Arguments can be passed by name', () => {
+        const A = C.with({ names: ['base', 'logger', 'plain'] })(Base, Logger, Plain);
+        const instance = new A({ base: [42], logger: ['debug'] });
+        expect(instance.value).toBe(42);
+        expect(instance.level).toBe('debug');
+        expect(instance.plain).toBe(true);
+
+        // Positional arguments keep working
+        expect(new A([7]).value).toBe(7);
+        expect(new A({ base: [1] }).level).toBe('info');
+
+        // @ts-expect-error base takes a required parameter
+        expect(new A({ logger: [] }).value).toBeUndefined();
+    });
+
+    test('Named arguments work with subclasses and flat classes', () => {
+        class Sub extends C.with({ names: ['base', 'logger'] })(Base, Logger) {
+            double() { return this.value * 2; }
+        }
+        expect(new Sub({ base: [21] }).double()).toBe(42);
+
+        const Flat = C.with({ flat: true, names: ['base', 'logger'] })(Base, Logger);
+        expect(new Flat({ base: [3], logger: ['warn'] }).level).toBe('warn');
+    });
+
+    test('Invalid names and arguments are rejected', () => {
+        expect(() => C.with({ names: ['base'] })(Base, Logger)).toThrow(TypeError);
+        expect(() => C.with({ names: ['same', 'same'] })(Base, Logger)).toThrow(TypeError);
+
+        const A = C.with({ names: ['base', 'logger'] })(Base, Logger);
+        // @ts-expect-error unknown constituent name
+        expect(() => new A({ base: [1], other: [] })).toThrow('Unknown constituents of Conjugate<Base,Logger>: other.');
+    });
+});
@@ -0,0 +1,75 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Runtime Attachment Tests
+** - Validates constituents attached at runtime take part in resolution, reflection and instanceof immediately
+** - Validates attached constituents are consulted last, and typed with their members
+** - Validates detaching restores the instance, and flat instances reject attachments
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+class Base {
+    name = 'base';
+    greet() { return `Hello from ${this.name}`; }
+}
+
+class Plugin {
+    constructor(public level: number = 1) { }
+    boost() { return this.level * 10; }
+    greet() { return 'Hello from plugin'; }
+}
+
+describe('Runtime Attachment', () => {
+    test('Attached constituents are resolved and reflected immediately', () => {
+        const A = C(Base);
+        const instance = new A([]);
+        expect(instance instanceof Plugin).toBe(false);
+
+        const extended = ConjugateBase.attach(instance, Plugin, [3]);
+        expect(extended).toBe(instance);
+        expect(extended.boost()).toBe(30);
+        expect('boost' in instance).toBe(true);
+        expect(Object.keys(instance)).toEqual(['name', 'level']);
+        expect(instance instanceof Plugin).toBe(true);
+        expect(ConjugateBase.isComposedOf(instance, Plugin)).toBe(true);
+        expect(ConjugateBase.explain(instance, 'boost').source).toMatchObject({ kind: 'attachment', class: Plugin });
+
+        // Assignments reach the attached instance
+        extended.level = 5;
+        expect(extended.boost()).toBe(50);
+    });
+
+    test('Attached constituents are consulted last', () => {
+        const instance = new (C(Base))([]);
+        const extended = ConjugateBase.attach(instance, new Plugin(2));
+        expect(extended.greet()).toBe('Hello from base');
+        expect(extended.boost()).toBe(20);
+
+        // Mixin factories and plain objects can be attached too
+        const Logging = <T extends new (...args: any[]) => object>(B: T) => class extends B {
+            log() { return 'logged'; }
+        };
+        const logged = ConjugateBase.attach(extended, Logging);
+        expect(logged.log()).toBe('logged');
+        const traited = ConjugateBase.attach(logged, { extra: true });
+        expect(traited.extra).toBe(true);
+    });
+
+    test('Detaching and flat instances', () => {
+        const instance = new (C(Base))([]);
+        const extended = ConjugateBase.attach(instance, Plugin);
+        const detached = ConjugateBase.detach(instance, Plugin);
+        expect(detached).toBeInstanceOf(Plugin);
+        expect('boost' in extended).toBe(false);
+        expect(instance instanceof Plugin).toBe(false);
+        expect(Object.keys(instance)).toEqual(['name']);
+        expect(ConjugateBase.detach(instance, Plugin)).toBeUndefined();
+
+        expect(() => ConjugateBase.attach(new (C.flat(Base))([]), Plugin)).toThrow(TypeError);
+        expect(() => ConjugateBase.attach(Object.preventExtensions(new (C(Base))([])), Plugin)).toThrow(TypeError);
+    });
+});
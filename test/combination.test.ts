@@ -0,0 +1,114 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Method Combination Tests
+** - Validates sequence, collect, pipe, any and all combinations
+** - Validates before, after and around advice
+** - Validates asynchronous members are awaited in order
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C } from '../src/conjugate.js';
+
+describe('Method Combination', () => {
+    test('Sequence and collect call every implementation in class order', () => {
+        const calls: string[] = [];
+        class Socket { dispose() { calls.push('socket'); } validate() { return 'socket'; } }
+        class Timer { dispose() { calls.push('timer'); } validate() { return 1; } }
+        class Plain { other = 0; }
+
+        const A = C.with({ combine: { dispose: 'sequence', validate: 'collect' } })(Socket, Plain, Timer);
+        const instance = new A([], [], []);
+        const none: void = instance.dispose();
+        expect(none).toBeUndefined();
+        expect(calls).toEqual(['socket', 'timer']);
+        const results: [string, number] = instance.validate();
+        expect(results).toEqual(['socket', 1]);
+
+        // Combined methods keep their identity, so they can be removed as listeners
+        expect(instance.dispose).toBe(instance.dispose);
+        const All = C.with({ resolve: { validate: 'all' } })(Socket, Timer);
+        const all = new All([], []);
+        expect([all.validate === all.validate, all.validate()]).toEqual([true, ['socket', 1]]);
+        const flat = new (C.with({ flat: true, combine: { dispose: 'sequence' } })(Socket, Timer))([], []);
+        expect(flat.dispose).toBe(flat.dispose);
+    });
+
+    test('Pipe passes each result to the next implementation', () => {
+        class Trim { format(text: string) { return text.trim(); } }
+        class Upper { format(text: string) { return text.toUpperCase(); } }
+        class Length { format(text: string) { return text.length; } }
+
+        const A = C.with({ combine: { format: 'pipe' } })(Trim, Upper, Length);
+        const length: number = new A([], [], []).format('  abc  ');
+        expect(length).toBe(3);
+    });
+
+    test('Any and all short-circuit', () => {
+        const calls: string[] = [];
+        class Yes { check() { calls.push('yes'); return true; } }
+        class No { check() { calls.push('no'); return false; } }
+
+        const Any = C.with({ combine: { check: 'any' } })(Yes, No);
+        expect(new Any([], []).check()).toBe(true);
+        expect(calls).toEqual(['yes']);
+
+        const All = C.with({ combine: { check: 'all' } })(No, Yes);
+        expect(new All([], []).check()).toBe(false);
+        expect(calls).toEqual(['yes', 'no']);
+    });
+
+    test('Advice wraps the primary implementation', () => {
+        const calls: string[] = [];
+        class Store { save(key: string) { calls.push(`save:${key}`); return key.length; } }
+        class Audit { save(key: string) { calls.push(`audit:${key}`); } }
+        class Metrics { save(key: string) { calls.push(`metrics:${key}`); } }
+        class Retry {
+            save(proceed: (key?: string) => number, key: string) {
+                calls.push('retry');
+                return proceed(key.toUpperCase()) * 10;
+            }
+        }
+
+        const A = C.with({
+            combine: { save: { primary: Store, before: [Audit], after: [Metrics], around: [Retry] } },
+        })(Audit, Store, Metrics, Retry);
+        const saved: number = new A([], [], [], []).save('key');
+        expect(saved).toBe(30);
+        expect(calls).toEqual(['retry', 'audit:KEY', 'save:KEY', 'metrics:KEY']);
+
+        // Without an explicit primary, the first class not giving advice provides it
+        const B = C.with({ combine: { save: { before: [Audit] } } })(Audit, Store);
+        expect(new B([], []).save('b')).toBe(1);
+        expect(() => C.with({ combine: { save: { before: [Date] } } })(Audit, Store)).toThrow(TypeError);
+    });
+
+    test('Asynchronous members are awaited in order', async () => {
+        const calls: string[] = [];
+        class Slow {
+            async close() {
+                await new Promise(resolve => setTimeout(resolve, 5));
+                calls.push('slow');
+                return 'slow';
+            }
+        }
+        class Fast { close() { calls.push('fast'); return 'fast'; } }
+
+        const A = C.with({ combine: { close: 'collect' } })(Slow, Fast);
+        const results: Promise<[string, string]> = new A([], []).close();
+        expect(calls).toEqual([]);
+        expect(await results).toEqual(['slow', 'fast']);
+        expect(calls).toEqual(['slow', 'fast']);
+
+        const B = C.with({ combine: { close: 'sequence' } })(Slow, Fast);
+        await expect(new B([], []).close()).resolves.toBeUndefined();
+    });
+
+    test('Invalid combinations are rejected', () => {
+        class Base { run() { return 1; } }
+        expect(() => C.with({ combine: { run: 'random' as 'all' } })(Base)).toThrow(TypeError);
+        expect(() => C.with({ resolve: { run: Base }, combine: { run: 'all' } })(Base)).toThrow(TypeError);
+    });
+});
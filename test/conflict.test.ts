@@ -0,0 +1,66 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Conflict Resolution Tests
+** - Validates strict mode reports overlapping members at composition and construction
+** - Validates shared ancestors do not count as conflicts
+** - Validates explicit resolution of a member to a class or to every implementation
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C } from '../src/conjugate.js';
+
+class Store { save(): string { return 'store'; } load(): number { return 1; } }
+class Cache { save(): string { return 'cache'; } load(): number { return 2; } }
+class Log { entries: string[] = []; }
+class Audit { entries: string[] = []; }
+
+describe('Conflict Resolution', () => {
+    test('Strict mode reports overlapping prototype members', () => {
+        expect(() => C.with({ strict: true })(Store, Cache))
+            .toThrow('Conflicting members in Conjugate<Store,Cache>: save (Store, Cache), load (Store, Cache).');
+        expect(() => C(Store, Cache)).not.toThrow();
+    });
+
+    test('Strict mode reports overlapping fields on construction', () => {
+        const A = C.with({ strict: true })(Log, Audit);
+        expect(() => new A([], [])).toThrow('Conflicting members in Conjugate<Log,Audit>: entries (Log, Audit).');
+    });
+
+    test('Shared ancestors are not conflicts', () => {
+        class Root { id(): string { return 'root'; } }
+        class Left extends Root { left() { return 'left'; } }
+        class Right extends Root { right() { return 'right'; } }
+
+        const A = C.with({ strict: true })(Left, Right);
+        expect(new A([], []).id()).toBe('root');
+    });
+
+    test('Members can be resolved to a constituent class', () => {
+        const A = C.with({ strict: true, resolve: { save: Cache, load: Store } })(Store, Cache);
+        const instance = new A([], []);
+        expect(instance.save()).toBe('cache');
+        expect(instance.load()).toBe(1);
+        expect(() => C.with({ resolve: { save: Log } })(Store, Cache)).toThrow(TypeError);
+    });
+
+    test('Members can be resolved to every implementation', () => {
+        const A = C.with({ strict: true, resolve: { save: 'all', load: 'all' } })(Store, Cache, Log);
+        const instance = new A([], [], []);
+        const saved: [string, string] = instance.save();
+        expect(saved).toEqual(['store', 'cache']);
+        expect(instance.load()).toEqual([1, 2]);
+        expect(instance.entries).toEqual([]);
+    });
+
+    test('Incompatible members are rejected at compile time', () => {
+        class Numeric { value(): number { return 1; } }
+        class Textual { value(): string { return 'text'; } }
+
+        // @ts-expect-error value is incompatible across constituents
+        expect(() => C.with({ strict: true })(Numeric, Textual)).toThrow(TypeError);
+        expect(() => C.with({ strict: true, resolve: { value: Textual } })(Numeric, Textual)).not.toThrow();
+    });
+});
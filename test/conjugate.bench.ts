@@ -0,0 +1,41 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Composition Benchmarks
+** - Compares property access and method calls on proxy-based and flat compositions
+** - Compares against a plain class as baseline
+*/
+
+import { describe, bench } from 'vitest';
+import { C } from '../src/conjugate.js';
+
+class Base { value = 1; read() { return this.value; } }
+class Mixin { step = 2; next(n: number) { return n + this.step; } }
+class Plain { value = 1; step = 2; read() { return this.value; } next(n: number) { return n + this.step; } }
+
+const Proxied = C(Base, Mixin);
+const Flat = C.flat(Base, Mixin);
+
+const plain = new Plain();
+const proxied = new Proxied([], []);
+const flat = new Flat([], []);
+
+describe('Field access', () => {
+    bench('plain', () => { plain.value + plain.step; });
+    bench('proxy', () => { proxied.value + proxied.step; });
+    bench('flat', () => { flat.value + flat.step; });
+});
+
+describe('Method calls', () => {
+    bench('plain', () => { plain.next(plain.read()); });
+    bench('proxy', () => { proxied.next(proxied.read()); });
+    bench('flat', () => { flat.next(flat.read()); });
+});
+
+describe('Construction', () => {
+    bench('plain', () => { new Plain(); });
+    bench('proxy', () => { new Proxied([], []); });
+    bench('flat', () => { new Flat([], []); });
+});
@@ -0,0 +1,114 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Asynchronous Creation Tests
+** - Validates create constructs every constituent, then awaits their initializers in construction order
+** - Validates initializers can be awaited concurrently, and create is typed like the constructor
+** - Validates constituents already initialized are disposed of when a later initializer fails
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+const log: string[] = [];
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+class Database {
+    connected = false;
+    constructor(public url: string = 'memory') { }
+    async [ConjugateBase.init]() {
+        log.push('Database start');
+        await tick();
+        this.connected = true;
+        log.push('Database end');
+    }
+    async [Symbol.asyncDispose]() { log.push('Database disposed'); }
+}
+
+class Config {
+    values: Record<string, string> = {};
+    async [ConjugateBase.init]() {
+        log.push('Config start');
+        await tick();
+        this.values = { mode: 'test' };
+        log.push('Config end');
+    }
+    [Symbol.dispose]() { log.push('Config disposed'); }
+}
+
+class Plain {
+    [Symbol.dispose]() { log.push('Plain disposed'); }
+}
+
+describe('Asynchronous Creation', () => {
+    test('Initializers are awaited in construction order', async () => {
+        log.length = 0;
+        const App = C(Database, Config);
+        const app = await App.create(['postgres://'], []);
+        expect(app).toBeInstanceOf(App);
+        expect([app.url, app.connected, app.values]).toEqual(['postgres://', true, { mode: 'test' }]);
+        expect(log).toEqual(['Database start', 'Database end', 'Config start', 'Config end']);
+
+        // Dependencies are constructed, and so initialized, first
+        log.length = 0;
+        const Ordered = C.with({ dependencies: { 0: [1] } })(Database, Config);
+        await Ordered.create(config => [config.values.mode], []);
+        expect(log).toEqual(['Config start', 'Config end', 'Database start', 'Database end']);
+    });
+
+    test('Concurrent initializers and typing', async () => {
+        log.length = 0;
+        const App = C.with({ init: 'concurrent', names: ['db', 'config'] })(Database, Config);
+        const app = await App.create({ db: ['sqlite://'] });
+        expect([app.url, app.connected, app.values.mode]).toEqual(['sqlite://', true, 'test']);
+        expect(log.slice(0, 2)).toEqual(['Database start', 'Config start']);
+
+        class Service extends C(Database, Plain) {
+            ready = false;
+            async [ConjugateBase.init]() {
+                await super[ConjugateBase.init]();
+                this.ready = this.connected;
+            }
+        }
+        const service: Service = await Service.create([], []);
+        expect(service.ready).toBe(true);
+
+        // @ts-expect-error the url must be a string
+        await expect(C(Database).create([1])).resolves.toBeDefined();
+
+        // Flat classes are created alike
+        const flat = await C.flat(Database, Config).create([], []);
+        expect([flat.connected, flat.values.mode]).toEqual([true, 'test']);
+
+        // A constituent static of the same name is resolved first, and typed as such
+        class Pooled {
+            static create() { return 'pooled'; }
+        }
+        const Pool = C(Pooled, Database);
+        const created: string = Pool.create();
+        expect(created).toBe('pooled');
+        // @ts-expect-error create is that of Pooled, not the one creating the composed instance
+        expect(Pool.create([], [])).toBe('pooled');
+    });
+
+    test('Initialized constituents are disposed of on failure', async () => {
+        class Failing {
+            async [ConjugateBase.init]() {
+                await tick();
+                throw new Error('failing');
+            }
+            [Symbol.dispose]() { log.push('Failing disposed'); }
+        }
+        log.length = 0;
+        await expect(C(Database, Plain, Failing, Config).create([], [], [], [])).rejects.toThrow('failing');
+        expect(log).toEqual(['Database start', 'Database end', 'Plain disposed', 'Database disposed']);
+
+        log.length = 0;
+        const Concurrent = C.with({ init: 'concurrent' })(Database, Failing, Config);
+        await expect(Concurrent.create([], [], [])).rejects.toThrow('failing');
+        expect(log.slice(-2)).toEqual(['Config disposed', 'Database disposed']);
+    });
+});
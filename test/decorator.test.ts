@@ -0,0 +1,144 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Decorator Tests
+** - Validates @conjugate composes a class extending a real superclass with mixins, its own members first
+** - Validates super in a decorated class reaches its declared superclass
+** - Validates classes without superclass are composed as a constituent, seeing the mixed-in members
+** - Validates member decorators declare resolutions and combinations, and merged interfaces type mixed-in members
+*/
+
+import { describe, test, expect } from 'vitest';
+import { ConjugateBase, IDecorated, conjugate, resolved, combined } from '../src/conjugate.js';
+
+class Entity {
+    constructor(public id: number = 0) { }
+    describe() { return `Entity ${this.id}`; }
+}
+
+class Named {
+    name = 'unnamed';
+    label() { return `Name ${this.name}`; }
+    save() { return 'named saved'; }
+}
+
+class Stored {
+    static table = 'items';
+    save() { return 'stored saved'; }
+}
+
+describe('Decorators', () => {
+    test('Classes extending a superclass are composed with mixins', () => {
+        interface Item extends IDecorated<[typeof Named, typeof Stored]> { }
+        @conjugate(Named, Stored)
+        class Item extends Entity {
+            constructor(id: number, public price: number) {
+                super(id);
+            }
+            describe() { return `Item ${this.id}: ${this.label()}`; }
+        }
+
+        const item = new Item(7, 3);
+        expect(item.describe()).toBe('Item 7: Name unnamed');
+        expect([item.id, item.price, item.name, item.save()]).toEqual([7, 3, 'unnamed', 'named saved']);
+        expect(Item.name).toBe('Item');
+        expect(Object.keys(item)).toEqual(['price', 'name', 'id']);
+        expect([item instanceof Item, item instanceof Entity, item instanceof Named]).toEqual([true, true, true]);
+        expect(ConjugateBase.constituentsOf(item)).toEqual([Entity, Named, Stored]);
+        expect((Item as unknown as typeof Stored).table).toBe('items');
+
+        // Decorated classes can be extended further
+        class Special extends Item {
+            describe() { return `Special ${super.describe()}`; }
+        }
+        expect(new Special(1, 0).describe()).toBe('Special Item 1: Name unnamed');
+    });
+
+    test('Super calls reach the declared superclass', () => {
+        class Counted extends Entity {
+            #count = 0;
+            get count() { return this.#count; }
+            increment() { return ++this.#count; }
+        }
+
+        interface Item extends IDecorated<[typeof Named]> { }
+        @conjugate(Named)
+        class Item extends Counted {
+            describe() { return `${super.describe()} (${this.label()})`; }
+            increment() { return super.increment() * 10; }
+            get count() { return super.count + 100; }
+        }
+
+        const item = new Item(4);
+        expect(item.describe()).toBe('Entity 4 (Name unnamed)');
+        expect([item.increment(), item.increment(), item.count]).toEqual([10, 20, 102]);
+        expect(Object.keys(item)).toEqual(['name', 'id']);
+    });
+
+    test('Classes without superclass are composed as a constituent', () => {
+        interface Service extends IDecorated<[typeof Named]> { }
+        @(conjugate.with({ strategy: 'right-to-left' })(Named))
+        class Service {
+            #calls = 0;
+            constructor(public port: number = 80) { }
+            greet() {
+                this.#calls++;
+                return `${this.label()} on ${this.port}, call ${this.#calls}`;
+            }
+            save() { return 'service saved'; }
+        }
+
+        const service = new Service(8080);
+        expect(service.greet()).toBe('Name unnamed on 8080, call 1');
+        expect(service.save()).toBe('named saved');
+        expect([service instanceof Service, ConjugateBase.constituentsOf(service).length]).toEqual([true, 2]);
+        expect(Service.name).toBe('Service');
+    });
+
+    test('Member decorators and typing', () => {
+        class Audit {
+            entries: string[] = [];
+            save() { this.entries.push('save'); return 'audited'; }
+        }
+
+        const strict = conjugate.with({ strict: true });
+        interface Repository extends IDecorated<[typeof Named, typeof Stored, typeof Audit]> { }
+        @strict(Named, Stored, Audit)
+        class Repository extends Entity {
+            @resolved(Stored)
+            save(): string { return ''; }
+        }
+
+        const repository = new Repository(1);
+        expect(repository.save()).toBe('stored saved');
+        expect(Object.prototype.hasOwnProperty.call(Repository.prototype, 'save')).toBe(false);
+        expect(repository.name).toBe('unnamed');
+        // @ts-expect-error members missing from every constituent are not typed
+        expect(repository.missing).toBeUndefined();
+
+        @strict(Named, Stored, Audit)
+        class Archive extends Entity {
+            @combined('collect')
+            save(): string[] { return []; }
+        }
+        const archive = new Archive();
+        expect(archive.save()).toEqual(['named saved', 'stored saved', 'audited']);
+        expect((archive as Archive & Audit).entries).toEqual(['save']);
+
+        // Without @conjugate, placeholders throw
+        class Plain {
+            @resolved(Stored)
+            save(): string { return ''; }
+        }
+        expect(() => new Plain().save()).toThrow(TypeError);
+
+        // Strict compositions still report clashes left unresolved
+        expect(() => {
+            @strict(Named, Stored)
+            class Clashing extends Entity { }
+            return Clashing;
+        }).toThrow(TypeError);
+    });
+});
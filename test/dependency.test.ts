@@ -0,0 +1,94 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Constituent Dependency Tests
+** - Validates constituents are constructed after their dependencies, which are injected
+** - Validates lazy constituents are constructed on the first use of their class
+** - Validates unknown constituents and circular dependencies are rejected
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+describe('Constituent Dependencies', () => {
+    test('Dependencies are constructed first and injected', () => {
+        const order: string[] = [];
+        class Config {
+            constructor(public url: string) { order.push('config'); }
+        }
+        class Client {
+            constructor(public config: Config) { order.push('client'); }
+            endpoint() { return `${this.config.url}/api`; }
+        }
+
+        const A = C.with({ names: ['client', 'config'], dependencies: { client: ['config'] } })(Client, Config);
+        const instance = new A({ client: (config: Config) => [config], config: ['https://example.com'] });
+        expect(order).toEqual(['config', 'client']);
+        expect(instance.endpoint()).toBe('https://example.com/api');
+        expect(instance.config).toBeInstanceOf(Config);
+
+        // Dependencies may also be referenced by class or index
+        const B = C.with({ dependencies: { 0: [Config] } })(Client, Config);
+        expect(new B((config: Config) => [config], ['local']).endpoint()).toBe('local/api');
+    });
+
+    test('Lazy constituents are constructed on first use', () => {
+        let constructed = 0;
+        class Base { base = 'base'; hello() { return 'hello'; } }
+        class Heavy {
+            data = 'heavy';
+            constructor() { constructed++; }
+            load() { return this.data; }
+        }
+
+        const A = C.with({ lazy: [Heavy] })(Base, Heavy);
+        const instance = new A([], []);
+        expect(instance.base).toBe('base');
+        expect(instance.hello()).toBe('hello');
+        expect('data' in instance).toBe(false);
+        expect(Object.getOwnPropertyDescriptor(instance, 'data')).toBeUndefined();
+        expect(instance).toBeInstanceOf(Heavy);
+        expect(constructed).toBe(0);
+
+        // A member of its class constructs it, and its fields join the view
+        expect(instance.load()).toBe('heavy');
+        expect(instance.data).toBe('heavy');
+        expect(constructed).toBe(1);
+        instance.load();
+        expect(constructed).toBe(1);
+
+        // Enumerating the full view constructs it too
+        const listed = new A([], []);
+        expect(Object.keys(listed)).toEqual(['data', 'base']);
+        expect(constructed).toBe(2);
+    });
+
+    test('Lazy constituents work with unified this and superOf', () => {
+        class Store {
+            declare items: string[];
+            add(item: string) { this.items.push(item); return this.items.length; }
+        }
+        class State { items: string[] = []; }
+        class Log { add(item: string) { return `log:${item}`; } }
+
+        const A = C.with({ unified: true, lazy: [Store, Log] })(Store, State, Log);
+        const instance = new A([], [], []);
+        expect(instance.add('a')).toBe(1);
+        expect(ConjugateBase.superOf(instance, Store).add('b')).toBe('log:b');
+        expect(instance.items).toEqual(['a']);
+    });
+
+    test('Unknown constituents and circular dependencies are rejected', () => {
+        class A { }
+        class B { }
+        class D { }
+
+        expect(() => C.with({ dependencies: { 0: [5] } })(A, B)).toThrow('Unknown constituent 5 of Conjugate<A,B>.');
+        expect(() => C.with({ lazy: [D] })(A, B)).toThrow('Unknown constituent D of Conjugate<A,B>.');
+        expect(() => C.with({ dependencies: { 0: [B], 1: [D], 2: [A] } })(A, B, D))
+            .toThrow('Circular dependency between constituents of Conjugate<A,B,D>: A -> B -> D -> A.');
+        expect(() => C.with({ flat: true, lazy: [B] })(A, B)).toThrow(TypeError);
+    });
+});
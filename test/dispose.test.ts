@@ -0,0 +1,97 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Disposal Tests
+** - Validates disposing of a conjugated instance disposes of every constituent, in reverse construction order
+** - Validates every constituent is disposed of despite failures, which are reported together
+** - Validates asynchronous disposal, and disposal of flat and subclassed instances
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C } from '../src/conjugate.js';
+
+const log: string[] = [];
+
+class Socket {
+    open = true;
+    [Symbol.dispose]() {
+        this.open = false;
+        log.push('Socket');
+    }
+}
+
+class Timer {
+    [Symbol.dispose]() { log.push('Timer'); }
+    async [Symbol.asyncDispose]() { log.push('Timer async'); }
+}
+
+class Plain { }
+
+describe('Disposal', () => {
+    test('Every constituent is disposed of, in reverse construction order', () => {
+        log.length = 0;
+        {
+            using instance = new (C(Socket, Plain, Timer))([], [], []);
+            expect(instance.open).toBe(true);
+        }
+        expect(log).toEqual(['Timer', 'Socket']);
+
+        // Dependencies are constructed first, so disposed of last; lazy ones only when constructed
+        class Lazy {
+            [Symbol.dispose]() { log.push('Lazy'); }
+        }
+        log.length = 0;
+        const Ordered = C.with({ dependencies: { 0: [1] }, lazy: [2] })(Socket, Timer, Lazy);
+        new Ordered(() => [], [], [])[Symbol.dispose]();
+        expect(log).toEqual(['Socket', 'Timer']);
+    });
+
+    test('Failures are reported together', () => {
+        class Failing {
+            [Symbol.dispose]() { throw new Error('failing'); }
+        }
+        class Broken {
+            [Symbol.dispose]() { throw new Error('broken'); }
+        }
+        log.length = 0;
+        const instance = new (C(Socket, Failing, Broken))([], [], []);
+        let caught: unknown = undefined;
+        try {
+            instance[Symbol.dispose]();
+        } catch (error) {
+            caught = error;
+        }
+        expect(log).toEqual(['Socket']);
+        expect(caught).toBeInstanceOf(typeof SuppressedError === 'function' ? SuppressedError : AggregateError);
+
+        // A single failure is thrown as-is
+        expect(() => new (C(Socket, Failing))([], [])[Symbol.dispose]()).toThrow('failing');
+    });
+
+    test('Asynchronous, flat and subclassed disposal', async () => {
+        log.length = 0;
+        {
+            await using instance = new (C(Socket, Timer))([], []);
+            expect(instance.open).toBe(true);
+        }
+        expect(log).toEqual(['Timer async', 'Socket']);
+
+        log.length = 0;
+        const flat = new (C.flat(Socket, Timer))([], []);
+        flat[Symbol.dispose]();
+        expect(log).toEqual(['Timer', 'Socket']);
+        expect(flat.open).toBe(false);
+
+        class Service extends C(Socket, Timer) {
+            [Symbol.dispose]() {
+                log.push('Service');
+                super[Symbol.dispose]();
+            }
+        }
+        log.length = 0;
+        new Service([], [])[Symbol.dispose]();
+        expect(log).toEqual(['Service', 'Timer', 'Socket']);
+    });
+});
@@ -0,0 +1,126 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Flat Composition Tests
+** - Validates flat classes resolve members like the proxy-based ones, without a proxy
+** - Validates constituents share state, while classes with private fields keep their own instance
+** - Validates statics, membership checks and options in flat mode
+** - Validates fields declared by several constituents are rejected unless every method sees the same one
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+describe('Flat Composition', () => {
+    test('Members resolve like the proxy-based composition', () => {
+        class Base { base = 'base'; who() { return 'Base'; } }
+        class Mixin { field = 'mixin'; who() { return 'Mixin'; } mixin() { return this.field; } }
+
+        const A = C.flat(Base, Mixin);
+        const instance = new A([], []);
+        expect(instance.who()).toBe('Base');
+        expect(instance.field).toBe('mixin');
+        expect(instance.mixin()).toBe('mixin');
+        expect(Object.keys(instance)).toEqual(['field', 'base']);
+
+        // Methods are plain prototype members, so references are stable
+        expect(instance.who).toBe(instance.who);
+        expect(instance.who).toBe(Base.prototype.who);
+    });
+
+    test('Fields declared by several constituents', () => {
+        class Base { x = 1; getX() { return this.x; } }
+        class Mixin { x = 2; }
+
+        // Each method sees the field of its own class in the proxy-based composition, which one object cannot hold
+        expect(new (C(Base, Mixin))([], []).getX()).toBe(1);
+        expect(() => new (C.flat(Base, Mixin))([], [])).toThrow(TypeError);
+
+        // Unified, every method sees the field the composition resolves
+        const Unified = C.with({ unified: true })(Base, Mixin);
+        const Flat = C.with({ unified: true, flat: true })(Base, Mixin);
+        expect([new Unified([], []).getX(), new Flat([], []).getX()]).toEqual([2, 2]);
+
+        // A constituent keeping its own instance still sees its own field
+        class Private { #secret = 0; x = 3; getX() { return this.x + this.#secret; } }
+        const kept = new (C.flat(Private, Base))([], []);
+        expect([kept.x, kept.getX()]).toEqual([1, 3]);
+        expect(() => new (C.flat(Base, Private))([], [])).toThrow(TypeError);
+    });
+
+    test('Prototype changes after composition are not reflected', () => {
+        class Base { who() { return 'Base'; } }
+        class Mixin { }
+
+        const A = C.flat(Base, Mixin);
+        const instance: any = new A([], []);
+        Base.prototype.who = () => 'changed';
+        (Mixin.prototype as any).late = () => 'late';
+        expect(instance.who()).toBe('Base');
+        expect(instance.late).toBeUndefined();
+    });
+
+    test('Accessors, subclasses and membership checks', () => {
+        class Reader {
+            declare _value?: string;
+            get value(): string { return `read:${this._value}`; }
+        }
+        class Writer {
+            _value?: string;
+            set value(value: string) { this._value = value; }
+        }
+        class Sub extends C.flat(Reader, Writer) {
+            extra() { return this.value.toUpperCase(); }
+        }
+
+        const instance = new Sub([], []);
+        instance.value = 'written';
+        expect(instance.value).toBe('read:written');
+        expect(instance.extra()).toBe('READ:WRITTEN');
+        expect(instance).toBeInstanceOf(Reader);
+        expect(instance).toBeInstanceOf(Writer);
+        expect(ConjugateBase.constituentsOf(instance)).toEqual([Reader, Writer]);
+    });
+
+    test('Classes with private fields keep their own instance', () => {
+        class Counter {
+            #count = 0;
+            step = 1;
+            increment() { this.#count += this.step; return this.#count; }
+        }
+        class Config { }
+
+        const A = C.flat(Counter, Config);
+        const instance = new A([], []);
+        instance.step = 5;
+        expect(instance.increment()).toBe(5);
+        expect(Object.keys(instance)).toEqual(['step']);
+    });
+
+    test('Statics are copied, static data stays on its class', () => {
+        class Base {
+            static count = 0;
+            static increment() { return ++this.count; }
+        }
+        class Mixin { static label = 'mixin'; }
+
+        const A = C.flat(Base, Mixin);
+        expect(A.increment()).toBe(1);
+        expect(Base.count).toBe(1);
+        expect(A.label).toBe('mixin');
+        expect(A.name).toBe('Conjugate<Base,Mixin>');
+    });
+
+    test('Options apply to flat classes', () => {
+        class Store { save() { return 'store'; } }
+        class Cache { save() { return 'cache'; } }
+
+        const Resolved = C.with({ flat: true, resolve: { save: Cache } })(Store, Cache);
+        expect(new Resolved([], []).save()).toBe('cache');
+        const Collected = C.with({ flat: true, combine: { save: 'collect' } })(Store, Cache);
+        expect(new Collected([], []).save()).toEqual(['store', 'cache']);
+        expect(() => C.with({ flat: true, strict: true })(Store, Cache)).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,59 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Inspection Tests
+** - Validates conjugated instances are tagged with the name of their class
+** - Validates Node.js inspection prints own properties grouped by originating class
+** - Validates subclasses, nested values and flat classes are inspected alike
+*/
+
+import { describe, test, expect } from 'vitest';
+import { inspect } from 'node:util';
+import { C } from '../src/conjugate.js';
+
+class Base { field = 'base'; }
+class Mixin {
+    mixin = 1;
+    get computed() { return 'prototype members are not listed'; }
+}
+
+describe('Inspection', () => {
+    test('Instances are tagged with the name of their class', () => {
+        const A = C(Base, Mixin);
+        expect(Object.prototype.toString.call(new A([], []))).toBe('[object Conjugate<Base,Mixin>]');
+
+        // Tags of constituents are hidden, tags of subclasses are not
+        const Target = C(Base, EventTarget);
+        expect(Object.prototype.toString.call(new Target([], []))).toBe('[object Conjugate<Base,EventTarget>]');
+        class Tagged extends A { get [Symbol.toStringTag]() { return 'Tagged'; } }
+        expect(Object.prototype.toString.call(new Tagged([], []))).toBe('[object Tagged]');
+    });
+
+    test('Own properties are grouped by originating class', () => {
+        const A = C(Base, Mixin);
+        const instance = new A([], []);
+        expect(inspect(instance)).toBe("Conjugate<Base,Mixin> { Base: { field: 'base' }, Mixin: { mixin: 1 } }");
+
+        // Shadowed fields are listed with the class they resolve to
+        class Other { field = 'other'; }
+        expect(inspect(new (C(Base, Other))([], []))).toBe("Conjugate<Base,Other> { Other: { field: 'other' } }");
+    });
+
+    test('Subclasses, nested values and flat classes', () => {
+        class Service extends C(Base, Mixin) { extra = true; }
+        expect(inspect(new Service([], []), { breakLength: Infinity })).toBe(
+            "Service [Conjugate<Base,Mixin>] { Service: { extra: true }, Base: { field: 'base' }, Mixin: { mixin: 1 } }",
+        );
+
+        const A = C(Base, Mixin);
+        expect(inspect({ wrapped: { instance: new A([], []) } }, { depth: 1 }))
+            .toBe('{ wrapped: { instance: [Conjugate<Base,Mixin>] } }');
+
+        const Flat = C.flat(Base, Mixin);
+        expect(inspect(new Flat([], [])))
+            .toBe("Conjugate<Base,Mixin> { Base: { field: 'base' }, Mixin: { mixin: 1 } }");
+        expect(Object.prototype.toString.call(new Flat([], []))).toBe('[object Conjugate<Base,Mixin>]');
+    });
+});
@@ -0,0 +1,80 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Membership Tests
+** - Validates instanceof checks against constituent classes and their ancestors, except built-in ones
+** - Validates typed membership helpers and constituent listing
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+describe('Membership', () => {
+    test('Instances satisfy instanceof for every constituent class', () => {
+        class Root { }
+        class Base extends Root { }
+        class Mixin { }
+        class Other { }
+
+        class A extends C(Base, Mixin) { }
+        const instance = new A([], []);
+
+        expect(instance instanceof A).toBe(true);
+        expect(instance instanceof Base).toBe(true);
+        expect(instance instanceof Mixin).toBe(true);
+        expect(instance instanceof Root).toBe(true);
+        expect(instance instanceof Other).toBe(false);
+
+        // Unrelated objects are unaffected
+        expect(new Root() instanceof Base).toBe(false);
+        expect(new Base() instanceof Mixin).toBe(false);
+        expect({} instanceof Mixin).toBe(false);
+    });
+
+    test('Builtin ancestors are left untouched, and custom Symbol.hasInstance is honoured', () => {
+        class Base extends EventTarget { }
+        class Duck {
+            static [Symbol.hasInstance](value: unknown) {
+                return typeof value === 'object' && value !== null && 'quack' in value;
+            }
+        }
+
+        const instance = new (C(Base, Duck))([], []);
+        expect(instance instanceof Base).toBe(true);
+        expect(instance instanceof Duck).toBe(true);
+        // Built-in classes are shared by the whole realm, so their instanceof checks are not patched
+        expect(Object.getOwnPropertyDescriptor(EventTarget, Symbol.hasInstance)).toBeUndefined();
+        expect(instance instanceof EventTarget).toBe(false);
+        expect(ConjugateBase.isComposedOf(instance, EventTarget)).toBe(true);
+        expect({ quack: true } instanceof Duck).toBe(true);
+    });
+
+    test('isComposedOf narrows conjugated instances', () => {
+        class Base { base = 'base'; }
+        class Mixin { mixin() { return 'mixin'; } }
+        class Other { }
+
+        const instance: unknown = new (C(Base, Mixin))([], []);
+        expect(ConjugateBase.isComposedOf(instance, Other)).toBe(false);
+        expect(ConjugateBase.isComposedOf(null, Mixin)).toBe(false);
+        if (!ConjugateBase.isComposedOf(instance, Mixin)) {
+            throw new Error('Expected a Mixin');
+        }
+        expect(instance.mixin()).toBe('mixin');
+    });
+
+    test('Lists constituent classes of classes and instances', () => {
+        class Base { }
+        class Mixin { }
+
+        const A = C(Base, Mixin);
+        class Sub extends A { }
+        expect(ConjugateBase.constituentsOf(A)).toEqual([Base, Mixin]);
+        expect(ConjugateBase.constituentsOf(Sub)).toEqual([Base, Mixin]);
+        expect(ConjugateBase.constituentsOf(new Sub([], []))).toEqual([Base, Mixin]);
+        expect(() => ConjugateBase.constituentsOf(Base)).toThrow(TypeError);
+        expect(() => ConjugateBase.constituentsOf({})).toThrow(TypeError);
+    });
+});
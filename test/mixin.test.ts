@@ -0,0 +1,104 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Mixin Input Tests
+** - Validates mixin factories are composed alongside classes, and typed like them
+** - Validates trait objects are composed alongside classes, and changes to them are reflected
+** - Validates factories and traits work with options, membership checks and flat mode
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+type Ctor = new (...args: any[]) => {};
+
+const Timestamped = <T extends Ctor>(Base: T) => class extends Base {
+    created = 42;
+    age(now: number) { return now - this.created; }
+};
+
+const Named = <T extends Ctor>(Base: T) => class NamedMixin extends Base {
+    label = 'named';
+};
+
+class Entity {
+    constructor(public id: number) { }
+}
+
+describe('Mixin Inputs', () => {
+    test('Mixin factories are composed like classes', () => {
+        const A = C(Entity, Timestamped, Named);
+        const instance = new A([7]);
+        expect(instance.id).toBe(7);
+        expect(instance.created).toBe(42);
+        expect(instance.age(50)).toBe(8);
+        expect(instance.label).toBe('named');
+        expect(A.name).toBe('Conjugate<Entity,Timestamped,NamedMixin>');
+
+        // The same factory always stands for the same class
+        expect(C.classOf(Timestamped)).toBe(C.classOf(Timestamped));
+        expect(instance).toBeInstanceOf(C.classOf(Timestamped));
+        expect(ConjugateBase.constituentsOf(instance)).toEqual([Entity, C.classOf(Timestamped), C.classOf(Named)]);
+    });
+
+    test('Mixin factories may be functions, told apart from constructor functions', () => {
+        function Scale<T extends Ctor>(Base: T) {
+            return class extends Base { scale = 2; };
+        }
+        function LegacyFunction(this: { legacy: string }) {
+            this.legacy = 'legacy';
+        }
+        const Legacy = LegacyFunction as unknown as new () => { legacy: string };
+        const A = C(Entity, Scale);
+        const instance = new A([1], []);
+        expect(instance.scale).toBe(2);
+        expect(C.classOf(Scale)).not.toBe(Scale);
+        expect(A.name).toBe('Conjugate<Entity,Scale>');
+
+        expect(C.classOf(Legacy)).toBe(Legacy);
+        expect(new (C(Entity, Legacy))([1], []).legacy).toBe('legacy');
+        expect((globalThis as any).legacy).toBeUndefined();
+    });
+
+    test('Trait objects are composed like classes', () => {
+        const Greeter = {
+            greeting: 'hello',
+            greet(this: { greeting: string }, name: string) { return `${this.greeting} ${name}`; },
+        };
+        const A = C(Entity, Greeter);
+        const instance = new A([1]);
+        expect(instance.greet('world')).toBe('hello world');
+        expect(instance.greeting).toBe('hello');
+        expect(A.name).toBe('Conjugate<Entity,Trait>');
+
+        // Traits stay live: changes are reflected, added members after invalidation
+        Greeter.greeting = 'hi';
+        expect(instance.greet('there')).toBe('hi there');
+        (Greeter as any).farewell = () => 'bye';
+        C.invalidate(Greeter);
+        expect((instance as any).farewell()).toBe('bye');
+    });
+
+    test('Factories and traits work with options and flat mode', () => {
+        const Saver = { save() { return 'trait'; } };
+        const Saving = <T extends Ctor>(Base: T) => class extends Base { save() { return 'factory'; } };
+
+        const Resolved = C.with({ resolve: { save: C.classOf(Saving) } })(Saver, Saving);
+        expect(new Resolved().save()).toBe('factory');
+        const Collected = C.with({ combine: { save: 'collect' } })(Saver, Saving);
+        expect(new Collected().save()).toEqual(['trait', 'factory']);
+
+        const Flat = C.flat(Entity, Timestamped, Saver);
+        const flat = new Flat([3]);
+        expect(flat.age(42)).toBe(0);
+        expect(flat.save()).toBe('trait');
+        expect(flat).toBeInstanceOf(C.classOf(Timestamped));
+    });
+
+    test('Invalid inputs are rejected', () => {
+        expect(() => C(Entity, (() => 42) as any)).toThrow('Mixin factory (anonymous) must return a class.');
+        expect(() => C(Entity, 42 as any)).toThrow(TypeError);
+    });
+});
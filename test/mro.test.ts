@@ -7,6 +7,7 @@
 ** - Tests method/property resolution order
 ** - Validates subclassing and shadowing behavior
 ** - Validates multi-class composition
+** - Validates subclass prototype methods and accessors take part in resolution
 */
 
 import { describe, test, expect } from 'vitest';
@@ -40,19 +41,20 @@ describe('Method Resolution Order', () => {
         expect(instance.who()).toBe('A');
     });
 
-    // test('Resolution order follows class argument order', () => {
-    //     class Base { who?() { return 'Base' + this.where() } where() { return 'Base'; } }
-    //     class Mixin1 { who?() { return 'Mixin1' + this.where() } where() { return 'Mixin1'; } }
-    //     class Mixin2 { who() { return 'Mixin2' + this.where() } where() { return 'Mixin2'; } }
+    test('Resolution order follows class argument order', () => {
+        class Base { who?() { return 'Base' + this.where() } where() { return 'Base'; } }
+        class Mixin1 { who?() { return 'Mixin1' + this.where() } where() { return 'Mixin1'; } }
+        class Mixin2 { who() { return 'Mixin2' + this.where() } where() { return 'Mixin2'; } }
 
-    //     const A = C(Mixin1, Base, Mixin2);
-    //     const instance = new A([], [], []);
-    //     expect(instance.who?.()).toBe('Mixin1Mixin1');
-    //     delete (Mixin1.prototype.who);
-    //     expect(instance.who?.()).toBe('BaseMixin1');
-    //     delete (Base.prototype.who);
-    //     expect(instance.who?.()).toBe('Mixin2Mixin1');
-    // });
+        // Calls through `this` dispatch through the composition in unified mode
+        const A = C.with({ unified: true })(Mixin1, Base, Mixin2);
+        const instance = new A([], [], []);
+        expect(instance.who?.()).toBe('Mixin1Mixin1');
+        delete (Mixin1.prototype.who);
+        expect(instance.who?.()).toBe('BaseMixin1');
+        delete (Base.prototype.who);
+        expect(instance.who?.()).toBe('Mixin2Mixin1');
+    });
 
     test('Method only in last mixin is accessible', () => {
         class Base { }
@@ -63,6 +65,40 @@ describe('Method Resolution Order', () => {
         expect(instance.onlyInMixin2()).toBe('ok');
     });
 
+    test('Subclass prototype methods override base/mixin methods', () => {
+        class Base { who() { return 'Base'; } where() { return 'Base'; } }
+        class Mixin1 { who() { return 'Mixin1'; } when() { return 'Mixin1'; } }
+
+        class A extends C(Base, Mixin1) { who() { return 'A'; } }
+        class B extends A { where() { return 'B'; } }
+        const instance = new B([], []);
+        expect(instance.who()).toBe('A');
+        expect(instance.where()).toBe('B');
+        expect(instance.when()).toBe('Mixin1');
+        expect('who' in instance).toBe(true);
+    });
+
+    test('Subclass accessors and super calls participate in resolution', () => {
+        class Base { label = 'base'; }
+        class Mixin1 { get size() { return 1; } }
+
+        class A extends C(Base, Mixin1) {
+            _size = 10;
+            get size() { return this._size; }
+            set size(value: number) { this._size = value; }
+            describe() { return `${this.label}:${this.size}`; }
+        }
+        class B extends A {
+            describe() { return `B(${super.describe()})`; }
+        }
+        const instance = new B([], []);
+        expect(instance.size).toBe(10);
+        instance.size = 20;
+        expect(instance._size).toBe(20);
+        expect(instance.describe()).toBe('B(base:20)');
+        expect(Object.keys(instance)).not.toContain('size');
+    });
+
     test('Subclass property shadows base/mixin properties', () => {
         class Base { foo = 'base'; bar = 'base-bar'; }
         class Mixin1 { foo = 'mixin1'; bar = 'mixin1-bar'; foobar = 'mixin1-foobar'; }
@@ -0,0 +1,144 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Observable Mode Tests
+** - Validates assignments, definitions and deletions report the key, values and owning constituent class
+** - Validates subscriptions can be ended, and batches report their changes at once
+** - Validates only observable classes accept subscribers, and constituents report the writes they make themselves
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase, IChange } from '../src/conjugate.js';
+
+class Position {
+    x = 0;
+    y = 0;
+    move(dx: number) { this.x += dx; }
+}
+
+class Style {
+    shade = 'black';
+    get color() { return this.shade; }
+    set color(value: string) { this.shade = value.toLowerCase(); }
+}
+
+describe('Observable Mode', () => {
+    test('Changes report the key, values and owner', () => {
+        const Shape = C.with({ observable: true })(Position, Style);
+        const shape = new Shape([], []);
+        const changes: IChange<typeof shape>[] = [];
+        ConjugateBase.subscribe(shape, batch => changes.push(...batch));
+
+        shape.x = 3;
+        shape.color = 'RED';
+        Object.defineProperty(shape, 'label', { value: 'box', writable: true, enumerable: true, configurable: true });
+        delete (shape as { y?: number }).y;
+        expect(changes).toEqual([
+            { op: 'set', key: 'x', oldValue: 0, newValue: 3, class: Position },
+            // Accessors report the fields they write, having no value of their own
+            { op: 'set', key: 'shade', oldValue: 'black', newValue: 'red', class: Style },
+            { op: 'set', key: 'color', oldValue: undefined, newValue: undefined, class: Style },
+            { op: 'define', key: 'label', oldValue: undefined, newValue: 'box', class: undefined },
+            { op: 'delete', key: 'y', oldValue: 0, newValue: undefined, class: Position },
+        ]);
+
+        // Freezing redefines every property; failed changes are not reported
+        changes.length = 0;
+        Object.freeze(shape);
+        expect(changes.map(change => [change.op, change.key])).toEqual([
+            ['define', 'label'],
+            ['define', 'shade'],
+            ['define', 'x'],
+        ]);
+        changes.length = 0;
+        expect(Reflect.set(shape, 'x', 4)).toBe(false);
+        expect(changes).toEqual([]);
+    });
+
+    test('Subscriptions and batches', () => {
+        class Shape extends C.with({ observable: true })(Position, Style) {
+            reset() {
+                ConjugateBase.batch(this, () => {
+                    this.x = 0;
+                    this.y = 0;
+                });
+            }
+        }
+        const shape = new Shape([], []);
+        const batches: (keyof Shape)[][] = [];
+        const unsubscribe = ConjugateBase.subscribe(shape, batch => batches.push(batch.map(change => change.key)));
+        const listener = () => { batches.push([]); };
+        ConjugateBase.subscribe(shape, listener);
+        expect(ConjugateBase.unsubscribe(shape, listener)).toBe(true);
+
+        shape.x = 1;
+        shape.reset();
+        expect(ConjugateBase.batch(shape, () => {
+            shape.y = 2;
+            shape.reset();
+            return 'done';
+        })).toBe('done');
+        expect(batches).toEqual([['x'], ['x', 'y'], ['y', 'x', 'y']]);
+
+        // Changes made before a failure are reported all the same
+        expect(() => ConjugateBase.batch(shape, () => {
+            shape.x = 5;
+            throw new Error('failing');
+        })).toThrow('failing');
+        expect(batches.at(-1)).toEqual(['x']);
+
+        unsubscribe();
+        shape.x = 6;
+        expect(batches).toHaveLength(4);
+        expect(ConjugateBase.unsubscribe(shape, listener)).toBe(false);
+    });
+
+    test('Observable classes and writes of constituents', () => {
+        const plain = new (C(Position))([]);
+        expect(() => ConjugateBase.subscribe(plain, () => { })).toThrow(TypeError);
+        expect(() => C.with({ flat: true, observable: true })(Position)).toThrow(TypeError);
+
+        // Methods running against their own instance report their writes, like those running against the composition
+        for (const unified of [false, true]) {
+            const keys: string[] = [];
+            const shape = new (C.with({ observable: true, unified })(Position))([]);
+            ConjugateBase.subscribe(shape, batch => keys.push(...batch.map(change => String(change.key))));
+            shape.move(1);
+            expect([shape.x, keys]).toEqual([1, ['x']]);
+        }
+
+        // Values are read without running getters or constructing lazy constituents
+        let constructed = 0;
+        class Heavy {
+            data = 'heavy';
+            constructor() { constructed++; }
+            get loud() { throw new Error('getter run'); }
+        }
+        const Lazy = C.with({ observable: true, lazy: [Heavy] })(Heavy, Position);
+        const lazy = new Lazy([], []);
+        const changes: IChange<typeof lazy>[] = [];
+        ConjugateBase.subscribe(lazy, batch => changes.push(...batch));
+        lazy.x = 2;
+        Object.defineProperty(lazy, 'loud', { value: 'quiet', configurable: true });
+        expect(changes.map(change => [change.key, change.oldValue, change.newValue])).toEqual([
+            ['x', 0, 2],
+            ['loud', undefined, 'quiet'],
+        ]);
+        expect(constructed).toBe(0);
+
+        // Constituents with private members keep their instance, so their own writes go unreported
+        class Counter {
+            #step = 1;
+            count = 0;
+            increment() { this.count += this.#step; }
+        }
+        const counter = new (C.with({ observable: true })(Counter))([]);
+        const counted: string[] = [];
+        ConjugateBase.subscribe(counter, batch => counted.push(...batch.map(change => String(change.key))));
+        counter.increment();
+        counter.count = 5;
+        expect(counted).toEqual(['count']);
+    });
+});
@@ -5,6 +5,8 @@
 **
 ** Dynamic Prototype Validation Tests
 ** - Validates that prototype changes after instantiation are reflected in instances
+** - Validates host objects such as EventTarget work as constituents, also in unified mode
+** - Validates method references are stable, and cached resolutions follow prototype changes
 */
 
 import { describe, test, expect } from 'vitest';
@@ -84,4 +86,77 @@ describe('Dynamic Prototype Validation', () => {
             expect(result).toBe('event received');
         });
     });
+
+    test('Should be able to addEventListener with unified mixins', () => {
+        // See #9 [bug] Illegal invocation with addEventListener
+
+        class Base extends EventTarget { baseMethod() { return 'base'; } }
+        class Mixin {
+            declare dispatchEvent: (event: Event) => boolean;
+            emit(type: string) { return this.dispatchEvent(new Event(type)); }
+        }
+        const A = C.with({ unified: true })(Base, Mixin);
+        const instance = new A([], []);
+
+        // Host methods run against the EventTarget itself, while the mixin reaches them through `this`
+        const future = new Promise<string>((resolve) => {
+            instance.addEventListener('test-event', () => resolve('event received'));
+            instance.emit('test-event');
+        });
+
+        return future.then((result) => {
+            expect(result).toBe('event received');
+            expect(instance.baseMethod()).toBe('base');
+        });
+    });
+
+    test('Method references are stable', () => {
+        class Base extends EventTarget { }
+        class Mixin {
+            calls = 0;
+            handle() { this.calls++; }
+        }
+        const A = C(Base, Mixin);
+        const instance = new A([], []);
+
+        expect(instance.handle).toBe(instance.handle);
+        expect(instance.addEventListener).toBe(instance.addEventListener);
+
+        // Listeners can be removed with the reference they were added with
+        instance.addEventListener('test-event', instance.handle);
+        instance.dispatchEvent(new Event('test-event'));
+        instance.removeEventListener('test-event', instance.handle);
+        instance.dispatchEvent(new Event('test-event'));
+        expect(instance.calls).toBe(1);
+    });
+
+    test('Cached resolutions follow prototype changes', () => {
+        class Base { declare who?: () => string; }
+        class Mixin {
+            who?(): string { return 'mixin'; }
+            shadow() { Object.assign(this, { who: () => 'own' }); }
+        }
+        const A = C(Base, Mixin);
+        const instance = new A([], []);
+        expect(instance.who?.()).toBe('mixin');
+
+        // Members redefined or removed where they were found are picked up directly
+        Mixin.prototype.who = () => 'redefined';
+        expect(instance.who?.()).toBe('redefined');
+        delete Mixin.prototype.who;
+        expect(instance.who).toBeUndefined();
+
+        // Members added to an earlier prototype take effect once its class is invalidated
+        Mixin.prototype.who = () => 'mixin';
+        expect(instance.who?.()).toBe('mixin');
+        Base.prototype.who = () => 'base';
+        expect(instance.who?.()).toBe('mixin');
+        C.invalidate(Base);
+        expect(instance.who?.()).toBe('base');
+
+        // Fields added to a constituent instance shadow cached prototype members
+        delete Base.prototype.who;
+        instance.shadow();
+        expect(instance.who?.()).toBe('own');
+    });
 });
@@ -0,0 +1,89 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Reflective Operation Tests
+** - Validates deletion, definition and descriptor lookup are routed to the owning instance
+** - Validates enumeration, spread, Object.assign and JSON serialization of the composed view
+** - Validates freezing, sealing and prototype access
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C } from '../src/conjugate.js';
+
+class Base { base = 'base'; shared = 'base-shared'; }
+class Mixin { mixin = 'mixin'; shared = 'mixin-shared'; hello() { return 'hello'; } }
+
+describe('Reflective Operations', () => {
+    test('Descriptors and enumeration match the composed view', () => {
+        class A extends C(Base, Mixin) { own = 'own'; }
+        const instance = new A([], []);
+
+        expect(Object.keys(instance).sort()).toEqual(['base', 'mixin', 'own', 'shared']);
+        expect(Object.getOwnPropertyDescriptor(instance, 'mixin')).toEqual({
+            value: 'mixin', writable: true, enumerable: true, configurable: true,
+        });
+        expect(Object.getOwnPropertyDescriptor(instance, 'hello')).toBeUndefined();
+        expect({ ...instance }).toEqual({ base: 'base', mixin: 'mixin', own: 'own', shared: 'mixin-shared' });
+        expect(JSON.parse(JSON.stringify(instance))).toEqual({ ...instance });
+        expect(Object.assign({}, instance).shared).toBe('mixin-shared');
+        expect(Object.getPrototypeOf(instance)).toBe(A.prototype);
+    });
+
+    test('Assignment and definition are routed to the owning instance', () => {
+        const instance = new (C(Base, Mixin))([], []);
+
+        Object.assign(instance, { base: 'assigned', extra: undefined });
+        expect(instance.base).toBe('assigned');
+        expect('extra' in instance).toBe(true);
+
+        Object.defineProperty(instance, 'mixin', { enumerable: false });
+        expect(Object.keys(instance)).not.toContain('mixin');
+        expect(instance.mixin).toBe('mixin');
+
+        Object.defineProperty(instance, 'defined', { value: 42, enumerable: true });
+        expect((instance as any).defined).toBe(42);
+
+        // Complete descriptors of owned keys reach the owner too, so its methods see them
+        class Counter { m = 1; getM() { return this.m; } }
+        const counter = new (C(Base, Counter))([], []);
+        Object.defineProperty(counter, 'm', { value: 5, writable: true, enumerable: true, configurable: true });
+        expect([counter.m, counter.getM()]).toEqual([5, 5]);
+
+        // Subclass fields redeclaring a constituent field initialize it in place
+        class Sub extends C(Base, Counter) { m = 2; }
+        expect(new Sub([], []).getM()).toBe(2);
+    });
+
+    test('Deletion removes the property from the composed view', () => {
+        const instance = new (C(Base, Mixin))([], []);
+
+        expect(delete (instance as any).shared).toBe(true);
+        expect('shared' in instance).toBe(false);
+        expect((instance as any).shared).toBeUndefined();
+        expect(delete (instance as any).base).toBe(true);
+        expect(Object.keys(instance)).toEqual(['mixin']);
+        expect(instance.hello()).toBe('hello');
+    });
+
+    test('Freezing and sealing apply to every constituent', () => {
+        const frozen = new (C(Base, Mixin))([], []);
+        Object.freeze(frozen);
+        expect(Object.isFrozen(frozen)).toBe(true);
+        expect(() => { frozen.mixin = 'changed'; }).toThrow(TypeError);
+        expect(() => { (frozen as any).extra = 1; }).toThrow(TypeError);
+        expect(frozen.mixin).toBe('mixin');
+        expect(frozen.hello()).toBe('hello');
+
+        const sealed = new (C(Base, Mixin))([], []);
+        Object.seal(sealed);
+        expect(Object.isSealed(sealed)).toBe(true);
+        expect(Object.isFrozen(sealed)).toBe(false);
+        sealed.mixin = 'changed';
+        expect(sealed.mixin).toBe('changed');
+        expect(Object.getOwnPropertyDescriptor(sealed, 'mixin')?.value).toBe('changed');
+        expect(() => delete (sealed as any).base).toThrow(TypeError);
+        expect(Object.keys(sealed).sort()).toEqual(['base', 'mixin', 'shared']);
+    });
+});
@@ -0,0 +1,78 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Required Member Tests
+** - Validates members required by a constituent can be provided by another constituent or a subclass
+** - Validates compositions missing required members cannot be instantiated, at compile time and at runtime
+** - Validates the error lists the missing members and the classes requiring them
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+abstract class Comparable {
+    static readonly [ConjugateBase.requires] = ['compareTo'] as const;
+    abstract compareTo(other: number): number;
+    max(other: number) { return this.compareTo(other) >= 0 ? 'self' : 'other'; }
+}
+
+class Value {
+    constructor(public value: number = 0) { }
+    compareTo(other: number) { return this.value - other; }
+}
+
+class Label { label = 'label'; }
+
+describe('Required Members', () => {
+    test('Another constituent provides required members', () => {
+        const A = C(Comparable, Value);
+        expect(new A([], [5]).max(3)).toBe('self');
+        expect(new A([], [1]).max(3)).toBe('other');
+
+        const Unified = C.with({ unified: true })(Comparable, Value);
+        expect(new Unified([], [5]).max(3)).toBe('self');
+    });
+
+    test('A subclass provides required members', () => {
+        class Score extends C(Comparable, Label) {
+            compareTo(other: number) { return 10 - other; }
+        }
+        expect(new Score().max(3)).toBe('self');
+
+        // Fields of subclasses are initialized after the composition is constructed
+        class ByField extends C(Label, Comparable) {
+            compareTo = (other: number) => -other;
+        }
+        expect(new ByField().max(3)).toBe('other');
+        class FlatByField extends C.flat(Label, Comparable) {
+            compareTo = (other: number) => -other;
+        }
+        expect(new FlatByField().max(-3)).toBe('self');
+    });
+
+    test('Missing members are rejected', () => {
+        const A = C(Comparable, Label);
+        // @ts-expect-error compareTo is provided by neither Label nor a subclass
+        expect(() => new A())
+            .toThrow('Missing members of Conjugate<Comparable,Label>: compareTo (required by Comparable).');
+
+        // Instances of subclasses are checked on first access of a missing member
+        // @ts-expect-error subclasses must implement abstract required members
+        class Incomplete extends C(Label, Comparable) { }
+        const incomplete = new Incomplete();
+        expect('compareTo' in incomplete).toBe(false);
+        expect(() => incomplete.max(3))
+            .toThrow('Missing members of Conjugate<Label,Comparable>: compareTo (required by Comparable).');
+        expect(() => new (C.flat(Comparable, Label) as any)()).toThrow(TypeError);
+        // @ts-expect-error subclasses must implement abstract required members
+        class FlatIncomplete extends C.flat(Label, Comparable) { }
+        expect(() => new FlatIncomplete().max(3)).toThrow('Missing members of Conjugate<Label,Comparable>');
+    });
+
+    test('Invalid requirements are rejected', () => {
+        class Broken { static [ConjugateBase.requires] = 'compareTo'; }
+        expect(() => C(Broken, Label)).toThrow('Required members of Broken must be an array of strings or symbols.');
+    });
+});
@@ -0,0 +1,103 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Selective Inclusion Tests
+** - Validates pick and omit restrict the members a constituent exposes, at runtime and in its type
+** - Validates alias exposes members under other names, settling name clashes in strict mode
+** - Validates selections in flat mode, nested selections, and methods still seeing their own members
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase, pick, omit, alias } from '../src/conjugate.js';
+
+class Logger {
+    level = 1;
+    log() { return `log ${this.level}`; }
+    clear() { return 'logger cleared'; }
+}
+
+class Cache {
+    size = 0;
+    clear() { return 'cache cleared'; }
+    get() { return 'cached'; }
+}
+
+class Store {
+    data = 'd';
+    save() { return `saved ${this.data}`; }
+}
+
+describe('Selective Inclusion', () => {
+    test('Pick and omit restrict exposed members', () => {
+        const A = C(pick(Logger, 'log'), omit(Cache, 'clear'));
+        const instance = new A([], []);
+        expect(instance.log()).toBe('log 1');
+        expect(instance.get()).toBe('cached');
+        expect(instance.size).toBe(0);
+        // @ts-expect-error level is not picked
+        expect(instance.level).toBeUndefined();
+        // @ts-expect-error clear is omitted
+        expect(instance.clear).toBeUndefined();
+        expect('clear' in instance).toBe(false);
+        expect(Object.keys(instance)).toEqual(['size']);
+
+        // Selected classes still count as constituents
+        expect(instance instanceof Logger).toBe(true);
+        expect(ConjugateBase.constituentsOf(instance)).toEqual([Logger, Cache]);
+        expect(ConjugateBase.explain(instance, 'clear').source.kind).toBe('none');
+
+        expect(() => pick(Logger, 1 as unknown as 'log')).toThrow(TypeError);
+
+        // Object.prototype, and ancestors shared with other constituents, are not narrowed by a selection
+        class Entry { id() { return 'entry'; } }
+        class Line extends Entry { text = 'line'; }
+        class Row extends Entry { }
+        const Shared = C(pick(Line, 'text'), Row);
+        const shared = new Shared([], []);
+        expect([String(shared), shared.hasOwnProperty('text'), shared.id()]).toEqual(['[object Object]', true, 'entry']);
+        const FlatShared = C.flat(pick(Line, 'text'), Row);
+        expect(new FlatShared([], []).id()).toBe('entry');
+    });
+
+    test('Alias renames members and settles clashes', () => {
+        const A = C(Logger, alias(Store, { save: 'persist', data: 'payload' }));
+        const instance = new A([], []);
+        instance.payload = 'x';
+        expect(instance.persist()).toBe('saved x');
+        // @ts-expect-error save is renamed
+        expect(instance.save).toBeUndefined();
+        expect(Object.keys(instance)).toEqual(['payload', 'level']);
+        expect(ConjugateBase.explain(instance, 'persist').source).toMatchObject({ kind: 'prototype', class: Store });
+
+        // Without aliasing, strict mode rejects the clash
+        expect(() => C.with({ strict: true })(Logger, Cache)).toThrow(TypeError);
+        const Strict = C.with({ strict: true })(alias(Logger, { clear: 'reset' }), Cache);
+        const strict = new Strict([], []);
+        expect([strict.reset(), strict.clear()]).toEqual(['logger cleared', 'cache cleared']);
+
+        expect(() => alias(Logger, { log: 'write', clear: 'write' })).toThrow(TypeError);
+    });
+
+    test('Flat and nested selections', () => {
+        const F = C.flat(pick(Logger, 'log', 'level'), alias(Store, { data: 'payload' }));
+        const flat = new F([], []);
+        flat.payload = 'f';
+        expect([flat.log(), flat.save(), Object.keys(flat)]).toEqual(['log 1', 'saved f', ['payload', 'level']]);
+        // @ts-expect-error clear is not picked
+        expect(flat.clear).toBeUndefined();
+
+        const Nested = C(alias(omit(Logger, 'clear'), { log: 'write' }));
+        const nested = new Nested([]);
+        expect(nested.write()).toBe('log 1');
+        // @ts-expect-error log is renamed
+        expect(nested.log).toBeUndefined();
+        // @ts-expect-error clear is omitted before renaming
+        expect(nested.clear).toBeUndefined();
+
+        // Selections compose in unified mode, keeping their own instance
+        const Unified = C.with({ unified: true })(alias(Store, { data: 'payload' }), Logger);
+        expect(new Unified([], []).save()).toBe('saved d');
+    });
+});
@@ -0,0 +1,143 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Serialization Tests
+** - Validates JSON snapshots merge the state of every constituent, or group it by constituent
+** - Validates revive and fromJSON rebuild instances without running constructors
+** - Validates merged snapshots revive fields on the constituents owning them
+** - Validates clone copies constituents deeply while keeping the composition
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+let constructed = 0;
+
+class Point {
+    x: number;
+    y: number;
+    constructor(x = 0, y = 0) {
+        constructed++;
+        this.x = x;
+        this.y = y;
+    }
+    norm() { return Math.hypot(this.x, this.y); }
+}
+
+class Tags {
+    tags: string[];
+    constructor(...tags: string[]) {
+        constructed++;
+        this.tags = tags;
+    }
+    has(tag: string) { return this.tags.includes(tag); }
+}
+
+describe('Serialization', () => {
+    test('Snapshots merge or group constituent state', () => {
+        class Shape extends C(Point, Tags) { label = 'shape'; }
+        const shape = new Shape([3, 4], ['a']);
+        expect(JSON.parse(JSON.stringify(shape))).toEqual({ label: 'shape', x: 3, y: 4, tags: ['a'] });
+
+        const Grouped = C.with({ json: 'constituents', names: ['point', 'tags'] })(Point, Tags);
+        expect(ConjugateBase.snapshot(new Grouped({ point: [1, 2], tags: ['b'] }))).toEqual({
+            this: {},
+            point: { x: 1, y: 2 },
+            tags: { tags: ['b'] },
+        });
+        expect(ConjugateBase.snapshot(shape, 'constituents')).toEqual({
+            this: { label: 'shape' },
+            Point: { x: 3, y: 4 },
+            Tags: { tags: ['a'] },
+        });
+
+        // A constituent defining toJSON takes precedence
+        class Custom { toJSON() { return 'custom'; } }
+        expect(JSON.stringify(new (C(Point, Custom))([1, 1], []))).toBe('"custom"');
+    });
+
+    test('Revived instances skip constructors', () => {
+        class Shape extends C.with({ json: 'constituents' })(Point, Tags) {
+            label = (constructed++, 'shape');
+        }
+        const json = JSON.stringify(new Shape([3, 4], ['a']));
+        constructed = 0;
+        const revived = Shape.fromJSON(json);
+        expect(constructed).toBe(0);
+        expect(revived).toBeInstanceOf(Shape);
+        expect(revived.norm()).toBe(5);
+        expect(revived.has('a')).toBe(true);
+        expect(revived.label).toBe('shape');
+        expect(JSON.stringify(revived)).toBe(json);
+
+        const Flat = C.flat(Point, Tags);
+        const flat = Flat.revive({ x: 6, y: 8, tags: ['f'] });
+        expect(constructed).toBe(0);
+        expect([flat.norm(), flat.has('f')]).toEqual([10, true]);
+
+        expect(() => Flat.revive(null)).toThrow(TypeError);
+    });
+
+    test('Merged snapshots revive fields on the constituents owning them', () => {
+        class Shape extends C(Point, Tags) { label = 'shape'; }
+        const json = JSON.stringify(new Shape([3, 4], ['a']));
+        constructed = 0;
+        const revived = Shape.fromJSON(json);
+        expect(constructed).toBe(0);
+        expect([revived.norm(), revived.has('a'), revived.label]).toEqual([5, true, 'shape']);
+        expect(ConjugateBase.snapshot(revived, 'constituents')).toEqual({
+            this: { label: 'shape' },
+            Point: { x: 3, y: 4 },
+            Tags: { tags: ['a'] },
+        });
+        expect(JSON.stringify(revived)).toBe(json);
+
+        // Constructors with side effects on the revived fields are not run again
+        class Conn {
+            url: string;
+            constructor(url = 'local') { this.url = url.toUpperCase(); }
+        }
+        class Retry { retries = 3; }
+        const Client = C(Conn, Retry);
+        expect(() => Client.revive({ url: 'db', retries: 1 }))
+            .toThrow('Cannot tell which constituent of Conjugate<Conn,Retry> owns field url before a Retry is');
+        const client = Client.revive(JSON.parse(JSON.stringify(new Client(['db'], []))));
+        expect([client.url, client.retries]).toEqual(['DB', 3]);
+        expect(ConjugateBase.snapshot(client, 'constituents'))
+            .toEqual({ this: {}, Conn: { url: 'DB' }, Retry: { retries: 3 } });
+    });
+
+    test('Clones copy constituents deeply', () => {
+        class Shape extends C(Point, Tags) { origin = { x: 0 }; }
+        const shape = new Shape([3, 4], ['a']);
+        constructed = 0;
+        const clone = ConjugateBase.clone(shape);
+        expect(constructed).toBe(0);
+        expect(clone).toBeInstanceOf(Shape);
+        expect(ConjugateBase.constituentsOf(clone)).toEqual([Point, Tags]);
+
+        clone.x = 6;
+        clone.tags.push('b');
+        clone.origin.x = 1;
+        expect([shape.x, shape.tags, shape.origin.x]).toEqual([3, ['a'], 0]);
+        expect([clone.norm(), clone.has('b'), clone.origin.x]).toEqual([Math.hypot(6, 4), true, 1]);
+
+        // References to the instance itself point to the clone
+        const cyclic = new Shape([], []);
+        cyclic.origin = cyclic as unknown as { x: number };
+        const copied = ConjugateBase.clone(cyclic);
+        expect(copied.origin).toBe(copied);
+
+        // Flat instances and constituents holding private fields are cloned alike
+        class Counter {
+            #count = 0;
+            increment() { return ++this.#count; }
+        }
+        const flat = new (C.flat(Point, Counter))([1, 2], []);
+        flat.increment();
+        const flatClone = ConjugateBase.clone(flat);
+        expect([flatClone.x, flatClone.y, flatClone.increment()]).toEqual([1, 2, 1]);
+    });
+});
@@ -0,0 +1,71 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Static Member Composition Tests
+** - Validates that static properties, methods and accessors are resolved across classes
+** - Validates static `this` binding for inherited factories
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C } from '../src/conjugate.js';
+
+describe('Static Member Composition', () => {
+    test('Resolves static members in left-to-right order', () => {
+        class Base { static who() { return 'Base'; } static readonly KIND = 'base'; }
+        class Mixin1 { static who() { return 'Mixin1'; } static only() { return 'Mixin1'; } }
+        class Mixin2 { static readonly LIMIT = 10; }
+
+        const A = C(Base, Mixin1, Mixin2);
+        expect(A.who()).toBe('Base');
+        expect(A.only()).toBe('Mixin1');
+        expect(A.KIND).toBe('base');
+        expect(A.LIMIT).toBe(10);
+        expect('only' in A).toBe(true);
+        expect('missing' in A).toBe(false);
+    });
+
+    test('Static accessors are resolved and assigned on their owner', () => {
+        class Base {
+            static _level = 1;
+            static get level() { return this._level; }
+            static set level(value: number) { this._level = value; }
+        }
+        class Mixin { static counter = 0; }
+
+        const A = C(Base, Mixin);
+        expect(A.level).toBe(1);
+        A.level = 3;
+        expect(Base._level).toBe(3);
+        A.counter += 1;
+        expect(Mixin.counter).toBe(1);
+    });
+
+    test('Inherited static factories build the composed class', () => {
+        class Base {
+            value: number;
+            constructor(value: number) { this.value = value; }
+            static create<T>(this: new (...args: any[]) => T, value: number): T {
+                return new this([value], []);
+            }
+        }
+        class Mixin { hello() { return 'hello'; } }
+
+        class A extends C(Base, Mixin) { }
+        const instance = A.create(42);
+        expect(instance).toBeInstanceOf(A);
+        expect(instance.value).toBe(42);
+        expect(instance.hello()).toBe('hello');
+    });
+
+    test('Subclass statics shadow constituent statics', () => {
+        class Base { static who() { return 'Base'; } }
+        class Mixin { static who() { return 'Mixin'; } }
+
+        class A extends C(Base, Mixin) { static who() { return 'A'; } }
+        expect(A.who()).toBe('A');
+        expect(A.name).toBe('A');
+        expect(C(Base, Mixin).name).toBe('Conjugate<Base,Mixin>');
+    });
+});
@@ -0,0 +1,92 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Resolution Strategy Tests
+** - Validates the default, left-to-right and right-to-left strategies
+** - Validates C3 linearization for diamond hierarchies
+** - Validates inspection of the computed method resolution order
+** - Validates shared ancestors are consulted after every class deriving from them
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase, type IConjugated } from '../src/conjugate.js';
+
+class Base { field = 'base'; who() { return 'Base'; } }
+class Mixin1 { field = 'mixin1'; who() { return 'Mixin1'; } }
+class Mixin2 { field = 'mixin2'; }
+
+class Root { who() { return 'Root'; } }
+class Left extends Root { left() { return 'left'; } }
+class Right extends Root { who() { return 'Right'; } }
+
+describe('Resolution Strategies', () => {
+    test('Default strategy prefers the last instance, then the first prototype', () => {
+        const A = C(Base, Mixin1, Mixin2);
+        const instance = new A([], [], []);
+        expect(instance.field).toBe('mixin2');
+        expect(instance.who()).toBe('Base');
+        expect(ConjugateBase.mroOf(A)).toEqual([Base, Mixin1, Mixin2, Object]);
+    });
+
+    test('Left-to-right strategy prefers the first class entirely', () => {
+        const A = C.with({ strategy: 'left-to-right' })(Base, Mixin1, Mixin2);
+        const instance = new A([], [], []);
+        expect(instance.field).toBe('base');
+        expect(instance.who()).toBe('Base');
+        expect(Object.keys(instance)).toEqual(['field']);
+    });
+
+    test('Right-to-left strategy lets the last class win', () => {
+        const A = C.with({ strategy: 'right-to-left' })(Base, Mixin1, Mixin2);
+        const instance = new A([], [], []);
+        const who: () => string = instance.who;
+        expect(who()).toBe('Mixin1');
+        expect(instance.field).toBe('mixin2');
+        expect(ConjugateBase.mroOf(instance)).toEqual([Mixin2, Mixin1, Base, Object]);
+    });
+
+    test('C3 linearization resolves diamonds like Python', () => {
+        const Default = C(Left, Right);
+        expect(new Default([], []).who()).toBe('Right');
+
+        const A = C.with({ strategy: 'c3' })(Left, Right);
+        const instance = new A([], []);
+        expect(instance.who()).toBe('Right');
+        expect(instance.left()).toBe('left');
+        expect(ConjugateBase.mroOf(A)).toEqual([Left, Right, Root, Object]);
+        expect(() => C.with({ strategy: 'c3' })(Root, Left)).toThrow(TypeError);
+    });
+
+    test('Super calls follow the linearization', () => {
+        type Parts = [typeof First, typeof Second];
+        class Top { chain(): string[] { return ['Top']; } }
+        class First extends Top {
+            chain(this: IConjugated<Parts>): string[] {
+                return ['First', ...ConjugateBase.superOf(this, First).chain()];
+            }
+        }
+        class Second extends Top {
+            chain(): string[] { return ['Second', ...super.chain()]; }
+        }
+
+        const A = C.with({ strategy: 'c3' })(First, Second);
+        expect(new A([], []).chain()).toEqual(['First', 'Second', 'Top']);
+    });
+
+    test('Shared ancestors come after every class deriving from them', () => {
+        class Named { toString() { return 'named'; } }
+        for (const strategy of ['default', 'left-to-right', 'right-to-left', 'c3'] as const) {
+            const A = C.with({ strategy })(Base, Named);
+            expect(String(new A([], []))).toBe('named');
+            expect(ConjugateBase.mroOf(A).at(-1)).toBe(Object);
+        }
+        const Diamond = C.with({ strategy: 'left-to-right' })(Left, Right);
+        expect(ConjugateBase.mroOf(Diamond)).toEqual([Left, Right, Root, Object]);
+    });
+
+    test('Unknown strategies are rejected', () => {
+        expect(() => C.with({ strategy: 'random' as 'c3' })(Base)).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,92 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Cross-Mixin Super Call Tests
+** - Validates chaining to the next implementation in resolution order
+** - Validates type-level resolution of the next implementation
+** - Validates next implementations follow the configured strategy, at runtime and in their type
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase, type IConjugated } from '../src/conjugate.js';
+
+describe('Cross-Mixin Super Calls', () => {
+    test('Cooperative methods chain through every class', () => {
+        type Parts = [typeof Base, typeof Mixin1, typeof Mixin2];
+        const log: string[] = [];
+
+        class Base {
+            dispose(this: IConjugated<Parts>) {
+                log.push('Base');
+                ConjugateBase.superOf(this, Base).dispose();
+            }
+        }
+        class Mixin1 {
+            dispose(this: IConjugated<Parts>) {
+                log.push('Mixin1');
+                ConjugateBase.superOf(this, Mixin1).dispose();
+            }
+        }
+        class Mixin2 {
+            dispose() { log.push('Mixin2'); }
+        }
+
+        const A = C(Base, Mixin1, Mixin2);
+        const instance = new A([], [], []);
+        instance.dispose();
+        expect(log).toEqual(['Base', 'Mixin1', 'Mixin2']);
+    });
+
+    test('Next implementation skips classes without the member', () => {
+        type Parts = [typeof Base, typeof Mixin1, typeof Mixin2];
+
+        class Base {
+            name = 'base';
+            toJSON(this: IConjugated<Parts>): object {
+                return { base: true, ...ConjugateBase.superOf(this, Base).toJSON() };
+            }
+        }
+        class Mixin1 { other() { return 'other'; } }
+        class Mixin2 {
+            name = 'mixin2';
+            toJSON() { return { mixin2: this.name }; }
+        }
+
+        const A = C(Base, Mixin1, Mixin2);
+        const instance = new A([], [], []);
+        expect(instance.toJSON()).toEqual({ base: true, mixin2: 'mixin2' });
+        expect('other' in ConjugateBase.superOf(instance, Base)).toBe(true);
+        expect('name' in ConjugateBase.superOf(instance, Mixin1)).toBe(false);
+    });
+
+    test('Calling a non-existent next method is rejected', () => {
+        class Base { init() { return 'base'; } }
+        class Mixin { init() { return 'mixin'; } ready = true; }
+
+        const A = C(Base, Mixin);
+        const instance = new A([], []);
+        expect(ConjugateBase.superOf(instance, Base).init()).toBe('mixin');
+        // @ts-expect-error Mixin is the last class, there is no next implementation
+        expect(ConjugateBase.superOf(instance, Mixin).init).toBeUndefined();
+        expect(() => ConjugateBase.superOf(instance, class Other { } as typeof Base)).toThrow(TypeError);
+        expect(() => ConjugateBase.superOf({}, Base)).toThrow(TypeError);
+
+        // The view after the last class is empty, not null
+        const last: {} = ConjugateBase.superOf(instance, Mixin);
+        expect(Reflect.ownKeys(last)).toEqual([]);
+    });
+
+    test('Next implementations follow the configured strategy', () => {
+        class Left { who() { return 'left'; } }
+        class Right { who() { return 'right'; } only() { return 'right only'; } }
+
+        const A = C.with({ strategy: 'right-to-left' })(Left, Right);
+        const instance = new A([], []);
+        expect(instance.who()).toBe('right');
+        expect(ConjugateBase.superOf(instance, Right).who()).toBe('left');
+        // @ts-expect-error Left comes last in right-to-left order
+        expect(ConjugateBase.superOf(instance, Left).only).toBeUndefined();
+    });
+});
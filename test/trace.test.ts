@@ -0,0 +1,90 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Resolution Tracing Tests
+** - Validates the trace callback receives the operation, key and source of every access
+** - Validates explain reports the full lookup path and the resolved source
+** - Validates explain has no side effects, and works for flat classes
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase, OpType, type ITrace } from '../src/conjugate.js';
+
+class Base {
+    field = 'base';
+    who() { return 'Base'; }
+}
+class Mixin {
+    who() { return 'Mixin'; }
+    set value(value: string) { }
+}
+
+describe('Resolution Tracing', () => {
+    test('Accesses are reported with their source', () => {
+        const events: ITrace[] = [];
+        class Traced extends C.with({ trace: event => events.push(event) })(Base, Mixin) {
+            own() { return 'own'; }
+        }
+        const instance = new Traced([], []);
+        events.length = 0;
+
+        instance.who();
+        instance.field;
+        instance.own();
+        void ('missing' in instance);
+        instance.value = 'set';
+        expect(events.map(({ op, key, source }) => [op, key, source.kind])).toEqual([
+            [OpType.Get, 'who', 'prototype'],
+            [OpType.Get, 'field', 'instance'],
+            [OpType.Get, 'own', 'self'],
+            [OpType.Has, 'missing', 'none'],
+            [OpType.Set, 'value', 'prototype'],
+        ]);
+        expect(events[0].source).toMatchObject({ class: Base, index: 0, target: Base.prototype });
+        expect(events[4].source).toMatchObject({ class: Mixin, index: 1 });
+    });
+
+    test('Explain reports the lookup path', () => {
+        const A = C.with({ combine: { who: 'collect' } })(Base, Mixin);
+        const instance = new A([], []);
+        const { path, source } = ConjugateBase.explain(instance, 'field');
+        expect(source).toMatchObject({ kind: 'instance', class: Base });
+        expect(path.map(step => [step.source.kind, step.defines])).toEqual([
+            ['self', false],
+            ['instance', false],
+            ['instance', true],
+            ['prototype', false],
+            ['prototype', false],
+            ['prototype', false],
+        ]);
+
+        expect(ConjugateBase.explain(instance, 'who').source.kind).toBe('combination');
+        expect(ConjugateBase.explain(instance, 'missing').source.kind).toBe('none');
+        // Setter-only accessors do not satisfy reads
+        expect(ConjugateBase.explain(instance, 'value').source.kind).toBe('none');
+    });
+
+    test('Explain has no side effects', () => {
+        let reads = 0;
+        let constructed = 0;
+        class Lazy {
+            constructor() { constructed++; }
+            get counted() { return ++reads; }
+        }
+        const A = C.with({ lazy: [Lazy] })(Base, Lazy);
+        const instance = new A([], []);
+        expect(ConjugateBase.explain(instance, 'counted').source).toMatchObject({ kind: 'prototype', class: Lazy });
+        expect(reads).toBe(0);
+        expect(constructed).toBe(0);
+    });
+
+    test('Flat classes are explained, not traced', () => {
+        const Flat = C.flat(Base, Mixin);
+        const instance = new Flat([], []);
+        expect(ConjugateBase.explain(instance, 'field').source).toMatchObject({ kind: 'instance', class: Base });
+        expect(ConjugateBase.explain(instance, 'who').source).toMatchObject({ kind: 'prototype', class: Base });
+        expect(() => C.with({ flat: true, trace: () => undefined })(Base, Mixin)).toThrow(TypeError);
+    });
+});
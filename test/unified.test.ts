@@ -0,0 +1,118 @@
+/*
+** conjugate.ts
+** A TypeScript utility for structured, reusable, and type-safe multiple class inheritance.
+**
+**
+** Unified This Tests
+** - Validates constituent methods read and write each other's fields through `this`
+** - Validates methods dispatch through the composition, like virtual methods
+** - Validates classes with private fields keep their own instance and still see shared state
+** - Validates classes can declare whether they keep their own instance
+*/
+
+import { describe, test, expect } from 'vitest';
+import { C, ConjugateBase } from '../src/conjugate.js';
+
+describe('Unified This', () => {
+    test('Constituents share state through this', () => {
+        class Base { baseField = 'base'; }
+        class Reader {
+            declare baseField: string;
+            read() { return this.baseField; }
+        }
+        class Writer {
+            declare baseField: string;
+            write(value: string) { this.baseField = value; }
+        }
+
+        const Isolated = C(Base, Reader, Writer);
+        expect(new Isolated([], [], []).read()).toBeUndefined();
+
+        const A = C.with({ unified: true })(Base, Reader, Writer);
+        const instance = new A([], [], []);
+        expect(instance.read()).toBe('base');
+        instance.write('written');
+        expect(instance.read()).toBe('written');
+        expect(Object.keys(instance)).toEqual(['baseField']);
+    });
+
+    test('Methods dispatch through the composition', () => {
+        class Shape {
+            area() { return 0; }
+            describe() { return `area ${this.area()}`; }
+        }
+        class Square {
+            side = 2;
+            area() { return this.side ** 2; }
+        }
+
+        const A = C.with({ unified: true })(Square, Shape);
+        const instance = new A([], []);
+        expect(instance.describe()).toBe('area 4');
+        expect(ConjugateBase.superOf(instance, Square).describe()).toBe('area 4');
+    });
+
+    test('Accessors and combined members run against the composition', () => {
+        class Temperature {
+            declare celsius: number;
+            set fahrenheit(value: number) { this.celsius = (value - 32) * 5 / 9; }
+        }
+        class Store {
+            celsius = 0;
+            dump() { return `store:${this.celsius}`; }
+        }
+        class Log {
+            declare celsius: number;
+            dump() { return `log:${this.celsius}`; }
+        }
+
+        const A = C.with({ unified: true, combine: { dump: 'collect' } })(Temperature, Store, Log);
+        const instance = new A([], [], []);
+        instance.fahrenheit = 212;
+        expect(instance.celsius).toBe(100);
+        expect(instance.dump()).toEqual(['store:100', 'log:100']);
+    });
+
+    test('Classes with private fields keep their own instance', () => {
+        class Counter {
+            #count = 0;
+            declare step: number;
+            increment() { this.#count += this.step; return this.#count; }
+        }
+        class Config { step = 5; }
+
+        const A = C.with({ unified: true })(Counter, Config);
+        const instance = new A([], []);
+        expect(instance.increment()).toBe(5);
+        expect(instance.increment()).toBe(10);
+        expect(ConjugateBase.constituentsOf(instance)).toEqual([Counter, Config]);
+        expect(instance).toBeInstanceOf(Counter);
+    });
+
+    test('Classes can declare whether they keep their own instance', () => {
+        const secrets = new WeakMap<object, string>();
+        class Vault {
+            static readonly [ConjugateBase.isolated] = true;
+            constructor() { secrets.set(this, 'secret'); }
+            reveal() { return secrets.get(this); }
+        }
+        class Tagged {
+            static readonly [ConjugateBase.isolated] = false;
+            tag = '#tag';
+            self() { return this; }
+        }
+
+        const A = C.with({ unified: true })(Vault, Tagged);
+        const instance = new A([], []);
+        expect(instance.reveal()).toBe('secret');
+        expect(instance.self()).toBe(instance);
+
+        // Undeclared, the private-looking string isolates the class
+        class Undeclared {
+            tag = '#tag';
+            self() { return this; }
+        }
+        const undeclared = new (C.with({ unified: true })(Undeclared))([]);
+        expect(undeclared.self()).not.toBe(undeclared);
+    });
+});